@@ -0,0 +1,223 @@
+import { describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { honoFetcher } from "./honoFetcher";
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => {
+		setTimeout(resolve, ms);
+	});
+
+describe("cache", () => {
+	const calls: Record<string, number> = {};
+	const count = (key: string) => {
+		calls[key] = (calls[key] ?? 0) + 1;
+		return calls[key];
+	};
+
+	const app = new Hono()
+		.get("/users/:id", async (c) => {
+			const id = c.req.param("id");
+			const call = count(`user-${id}`);
+			await sleep(5);
+			return c.json({
+				id,
+				call,
+				authorization: c.req.header("Authorization") ?? null,
+			});
+		})
+		.post("/users/:id", (c) => {
+			return c.json({ call: count(`post-${c.req.param("id")}`) });
+		})
+		.get("/items", (c) => {
+			return c.json({ call: count("items") });
+		})
+		.get("/max-age", (c) => {
+			c.header("Cache-Control", "max-age=60");
+			return c.json({ call: count("max-age") });
+		})
+		.get("/no-store", (c) => {
+			c.header("Cache-Control", "no-store");
+			return c.json({ call: count("no-store") });
+		})
+		.get("/ws", async (c) => {
+			const call = count("ws");
+			await sleep(5);
+			return c.json({ call, upgrade: c.req.header("Upgrade") ?? null });
+		});
+
+	const reset = () => {
+		for (const key of Object.keys(calls)) {
+			delete calls[key];
+		}
+	};
+
+	it("should deduplicate identical requests in flight", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: true });
+
+		const responses = await Promise.all([
+			api.get({ url: "/users/:id", params: { id: "1" } }),
+			api.get({ url: "/users/:id", params: { id: "1" } }),
+			api.get({ url: "/users/:id", params: { id: "2" } }),
+		]);
+		const data = await Promise.all(responses.map((r) => r.json()));
+
+		expect(data.map((d) => [d.id, d.call])).toEqual([
+			["1", 1],
+			["1", 1],
+			["2", 1],
+		]);
+		expect(calls).toEqual({ "user-1": 1, "user-2": 1 });
+	});
+
+	it("should key requests by their vary headers", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: true });
+
+		const responses = await Promise.all([
+			api.get({
+				url: "/users/:id",
+				params: { id: "1" },
+				init: { headers: { Authorization: "Bearer a" } },
+			}),
+			api.get({
+				url: "/users/:id",
+				params: { id: "1" },
+				init: { headers: { Authorization: "Bearer b" } },
+			}),
+		]);
+		const data = await Promise.all(responses.map((r) => r.json()));
+
+		expect(data.map((d) => d.authorization)).toEqual(["Bearer a", "Bearer b"]);
+		expect(calls["user-1"]).toBe(2);
+	});
+
+	it("should serve cached responses until the ttl runs out", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 40 } });
+
+		expect(await (await api.get({ url: "/items" })).json()).toEqual({
+			call: 1,
+		});
+		expect(await (await api.get({ url: "/items" })).json()).toEqual({
+			call: 1,
+		});
+
+		await sleep(50);
+		expect(await (await api.get({ url: "/items" })).json()).toEqual({
+			call: 2,
+		});
+	});
+
+	it("should serve stale responses while revalidating", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, {
+			cache: { ttl: 10, staleWhileRevalidate: 1000 },
+		});
+
+		await api.get({ url: "/items" });
+		await sleep(20);
+
+		const stale = await api.get({ url: "/items" });
+		expect(await stale.json()).toEqual({ call: 1 });
+
+		await sleep(10);
+		expect(calls.items).toBe(2);
+		const fresh = await api.get({ url: "/items" });
+		expect(await fresh.json()).toEqual({ call: 2 });
+	});
+
+	it("should follow Cache-Control response headers", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 1000 } });
+		const withoutTtl = honoFetcher<typeof app>(app.request, { cache: true });
+
+		await withoutTtl.get({ url: "/max-age" });
+		await withoutTtl.get({ url: "/max-age" });
+		expect(calls["max-age"]).toBe(1);
+
+		await api.get({ url: "/no-store" });
+		await api.get({ url: "/no-store" });
+		expect(calls["no-store"]).toBe(2);
+
+		// Without a ttl or max-age, responses are only shared while in flight
+		await withoutTtl.get({ url: "/items" });
+		await withoutTtl.get({ url: "/items" });
+		expect(calls.items).toBe(2);
+	});
+
+	it("should skip the cache for no-cache requests and other methods", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 1000 } });
+
+		await api.get({ url: "/items" });
+		await api.get({
+			url: "/items",
+			init: { headers: { "Cache-Control": "no-cache" } },
+		});
+		expect(calls.items).toBe(2);
+
+		await api.post({ url: "/users/:id", params: { id: "1" } });
+		await api.post({ url: "/users/:id", params: { id: "1" } });
+		expect(calls["post-1"]).toBe(2);
+	});
+
+	it("should skip the cache for websocket upgrades", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 1000 } });
+
+		const responses = await Promise.all([
+			api.websocket({ url: "/ws", config: { autoAccept: false } }),
+			api.websocket({ url: "/ws", config: { autoAccept: false } }),
+		]);
+		const data = await Promise.all(responses.map((r) => r.json()));
+
+		expect(data).toEqual([
+			{ call: 1, upgrade: "websocket" },
+			{ call: 2, upgrade: "websocket" },
+		]);
+		expect(calls.ws).toBe(2);
+	});
+
+	it("should invalidate cached responses by route", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 1000 } });
+
+		const load = async () => {
+			await api.get({ url: "/users/:id", params: { id: "1" } });
+			await api.get({ url: "/users/:id", params: { id: "2" } });
+			await api.get({ url: "/items" });
+		};
+
+		await load();
+		api.invalidate("/users/:id");
+		await load();
+		expect(calls).toEqual({ "user-1": 2, "user-2": 2, items: 1 });
+
+		api.invalidate("/users/2");
+		await load();
+		expect(calls).toEqual({ "user-1": 2, "user-2": 3, items: 1 });
+
+		api.invalidate();
+		await load();
+		expect(calls).toEqual({ "user-1": 3, "user-2": 4, items: 2 });
+	});
+
+	it("should not store responses requested before an invalidation", async () => {
+		reset();
+		const api = honoFetcher<typeof app>(app.request, { cache: { ttl: 1000 } });
+
+		const pending = api.get({ url: "/users/:id", params: { id: "1" } });
+		api.invalidate("/users/:id");
+		await pending;
+		await api.get({ url: "/users/:id", params: { id: "1" } });
+
+		expect(calls["user-1"]).toBe(2);
+	});
+
+	it("should do nothing on invalidate without a cache", async () => {
+		const api = honoFetcher<typeof app>(app.request);
+
+		expect(() => api.invalidate("/users/:id")).not.toThrow();
+	});
+});
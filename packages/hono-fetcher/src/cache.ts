@@ -0,0 +1,281 @@
+import type { FetcherMiddleware, FetcherRequest } from "./middleware";
+
+/**
+ * Options for the response cache of a fetcher.
+ *
+ * `GET` and `HEAD` requests are deduplicated while in flight and successful
+ * responses are cached in memory. `Cache-Control` response headers take
+ * precedence over `ttl` and `staleWhileRevalidate`: `max-age` and
+ * `stale-while-revalidate` replace them, `no-store` and `no-cache` skip the
+ * cache.
+ */
+export type CacheOptions = {
+	/** How long responses are served from the cache, in milliseconds (defaults to 0) */
+	ttl?: number;
+	/**
+	 * How long expired responses are still served while they are refetched in
+	 * the background, in milliseconds (defaults to 0)
+	 */
+	staleWhileRevalidate?: number;
+	/**
+	 * Request headers that are part of the cache key (defaults to `Accept`,
+	 * `Authorization` and `Cookie`)
+	 */
+	varyHeaders?: string[];
+	/** The most responses kept, oldest first out (defaults to 100) */
+	maxEntries?: number;
+};
+
+type CacheEntry = {
+	path: string;
+	status: number;
+	statusText: string;
+	headers: [string, string][];
+	body: ArrayBuffer;
+	freshUntil: number;
+	staleUntil: number;
+	revalidating: boolean;
+};
+
+type InFlight = {
+	path: string;
+	response: Promise<Response>;
+};
+
+/**
+ * A response cache: the middleware serving and storing responses, and a way
+ * to drop the responses of matching paths.
+ */
+export type ResponseCache = {
+	middleware: FetcherMiddleware;
+	invalidate: (matches?: (path: string) => boolean) => void;
+};
+
+const cachedMethods = ["GET", "HEAD"];
+
+const defaultVaryHeaders = ["Accept", "Authorization", "Cookie"];
+
+// Requested by `api.stream`, whose responses may never end
+const streamedTypes = /text\/event-stream|application\/x-ndjson/;
+
+// Directive names are lowercased, valueless directives are `true`
+const parseCacheControl = (
+	header: string | null,
+): Map<string, string | true> => {
+	const directives = new Map<string, string | true>();
+	for (const part of header?.split(",") ?? []) {
+		const [name, value] = part.trim().split("=");
+		if (name) {
+			directives.set(
+				name.toLowerCase(),
+				value === undefined ? true : value.replace(/"/g, ""),
+			);
+		}
+	}
+	return directives;
+};
+
+const seconds = (
+	directives: Map<string, string | true>,
+	name: string,
+): number | undefined => {
+	const value = directives.get(name);
+	if (typeof value !== "string" || Number.isNaN(Number(value))) {
+		return undefined;
+	}
+	return Number(value) * 1000;
+};
+
+const toResponse = (entry: CacheEntry): Response =>
+	new Response(entry.body, {
+		status: entry.status,
+		statusText: entry.statusText,
+		headers: entry.headers,
+	});
+
+// Waits for a shared response, but gives up when the caller aborts
+const untilAborted = (
+	response: Promise<Response>,
+	signal: AbortSignal | null | undefined,
+): Promise<Response> => {
+	if (!signal) {
+		return response;
+	}
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		if (signal.aborted) {
+			onAbort();
+			return;
+		}
+		signal.addEventListener("abort", onAbort, { once: true });
+		response.then(resolve, reject).finally(() => {
+			signal.removeEventListener("abort", onAbort);
+		});
+	});
+};
+
+/**
+ * Creates a response cache. Streamed requests, upgrade requests and requests
+ * with a `Cache-Control: no-cache` or `no-store` header, or an `init.cache`
+ * other than `default`, skip it.
+ */
+export const createResponseCache = ({
+	ttl = 0,
+	staleWhileRevalidate = 0,
+	varyHeaders = defaultVaryHeaders,
+	maxEntries = 100,
+}: CacheOptions = {}): ResponseCache => {
+	const entries = new Map<string, CacheEntry>();
+	const inFlight = new Map<string, InFlight>();
+	// Responses requested before an invalidation are not stored
+	let generation = 0;
+
+	const store = async (
+		key: string,
+		path: string,
+		response: Response,
+		requestGeneration: number,
+	) => {
+		const directives = parseCacheControl(response.headers.get("Cache-Control"));
+		if (
+			!response.ok ||
+			directives.has("no-store") ||
+			directives.has("no-cache")
+		) {
+			return;
+		}
+
+		const freshFor = seconds(directives, "max-age") ?? ttl;
+		const staleFor =
+			seconds(directives, "stale-while-revalidate") ?? staleWhileRevalidate;
+		if (freshFor + staleFor <= 0) {
+			return;
+		}
+
+		const body = await response.arrayBuffer();
+		if (requestGeneration !== generation) {
+			return;
+		}
+
+		const now = Date.now();
+		entries.delete(key);
+		entries.set(key, {
+			path,
+			status: response.status,
+			statusText: response.statusText,
+			headers: [...response.headers],
+			body,
+			freshUntil: now + freshFor,
+			staleUntil: now + freshFor + staleFor,
+			revalidating: false,
+		});
+
+		while (entries.size > maxEntries) {
+			const oldest = entries.keys().next().value;
+			if (oldest === undefined) {
+				break;
+			}
+			entries.delete(oldest);
+		}
+	};
+
+	const fetchShared = (
+		key: string,
+		path: string,
+		request: FetcherRequest,
+		next: (request: FetcherRequest) => Promise<Response>,
+	): Promise<Response> => {
+		const existing = inFlight.get(key);
+		if (existing) {
+			return existing.response;
+		}
+
+		// The shared request outlives the caller that started it
+		const { signal: _, ...init } = request.init;
+		const requestGeneration = generation;
+		const response = next({ ...request, init }).then((response) => {
+			store(key, path, response.clone(), requestGeneration).catch(() => {});
+			return response;
+		});
+		inFlight.set(key, { path, response });
+		response
+			.finally(() => {
+				if (inFlight.get(key)?.response === response) {
+					inFlight.delete(key);
+				}
+			})
+			.catch(() => {});
+
+		return response;
+	};
+
+	const middleware: FetcherMiddleware = async (request, next) => {
+		const method = (request.init.method ?? "GET").toUpperCase();
+		const headers = new Headers(
+			request.init.headers as unknown as ConstructorParameters<
+				typeof Headers
+			>[0],
+		);
+		const requestDirectives = parseCacheControl(headers.get("Cache-Control"));
+
+		if (
+			!cachedMethods.includes(method) ||
+			streamedTypes.test(headers.get("Accept") ?? "") ||
+			// Upgraded connections, such as `api.websocket`, can't be shared
+			headers.has("Upgrade") ||
+			requestDirectives.has("no-cache") ||
+			requestDirectives.has("no-store") ||
+			(request.init.cache && request.init.cache !== "default")
+		) {
+			return next(request);
+		}
+
+		const key = JSON.stringify([
+			method,
+			request.url,
+			...varyHeaders.map((name) => headers.get(name)),
+		]);
+		const path = request.url.split("?")[0];
+
+		const entry = entries.get(key);
+		const now = Date.now();
+		if (entry && now < entry.freshUntil) {
+			return toResponse(entry);
+		}
+
+		if (entry && now < entry.staleUntil) {
+			if (!entry.revalidating) {
+				entry.revalidating = true;
+				fetchShared(key, path, request, next)
+					.catch(() => {})
+					.finally(() => {
+						entry.revalidating = false;
+					});
+			}
+			return toResponse(entry);
+		}
+
+		const response = await untilAborted(
+			fetchShared(key, path, request, next),
+			request.init.signal,
+		);
+		return response.clone();
+	};
+
+	const invalidate = (matches?: (path: string) => boolean) => {
+		generation++;
+		for (const [key, entry] of entries) {
+			if (!matches || matches(entry.path)) {
+				entries.delete(key);
+			}
+		}
+		for (const [key, request] of inFlight) {
+			if (!matches || matches(request.path)) {
+				inFlight.delete(key);
+			}
+		}
+	};
+
+	return { middleware, invalidate };
+};
@@ -1,10 +1,15 @@
 import type { Hono } from "hono";
-import { honoFetcher, type TypedHonoFetcher } from "./honoFetcher";
+import {
+	type HonoFetcherOptions,
+	honoFetcher,
+	type TypedHonoFetcher,
+} from "./honoFetcher";
 
 export const honoDirectFetcher = <T extends Hono>(
 	baseUrl: string,
+	options?: HonoFetcherOptions,
 ): TypedHonoFetcher<T> => {
 	return honoFetcher<T>((request, init) => {
 		return fetch(`${baseUrl}${request}`, init) as ReturnType<T["request"]>;
-	});
+	}, options);
 };
@@ -1,6 +1,10 @@
 import type { Hono, Schema } from "hono";
 import type { ExtractSchema } from "hono/types";
-import { honoFetcher, type TypedHonoFetcher } from "./honoFetcher";
+import {
+	type HonoFetcherOptions,
+	honoFetcher,
+	type TypedHonoFetcher,
+} from "./honoFetcher";
 
 const DUMMY_URL = "http://dummy-url";
 
@@ -31,11 +35,14 @@ export type TypedDoFetcher<T extends DurableObjectStub> = TypedHonoFetcher<
 
 export const honoDoFetcher = <const T extends DurableObjectStub<DOWithHonoApp>>(
 	durableObject: T,
+	options?: HonoFetcherOptions,
 ): TypedDoFetcher<T> => {
+	// The cast is needed as TypeScript can't relate the methods of the
+	// deferred schema to themselves
 	// biome-ignore lint/suspicious/noExplicitAny: Generic parameter needs flexibility
 	return honoFetcher<Hono<any, DOStubSchema<T>>>((url, init) => {
 		return durableObject.fetch(`${DUMMY_URL}${url}`, init);
-	});
+	}, options) as TypedDoFetcher<T>;
 };
 
 export const honoDoFetcherWithName = <
@@ -43,8 +50,9 @@ export const honoDoFetcherWithName = <
 >(
 	namespace: DurableObjectNamespace<T>,
 	name: string,
+	options?: HonoFetcherOptions,
 ): TypedDoFetcher<DurableObjectStub<T>> => {
-	return honoDoFetcher(namespace.getByName(name));
+	return honoDoFetcher(namespace.getByName(name), options);
 };
 
 export const honoDoFetcherWithId = <
@@ -52,6 +60,7 @@ export const honoDoFetcherWithId = <
 >(
 	namespace: DurableObjectNamespace<T>,
 	id: string,
+	options?: HonoFetcherOptions,
 ): TypedDoFetcher<DurableObjectStub<T>> => {
-	return honoDoFetcher(namespace.get(namespace.idFromString(id)));
+	return honoDoFetcher(namespace.get(namespace.idFromString(id)), options);
 };
@@ -1,9 +1,24 @@
-import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+	afterAll,
+	beforeAll,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+} from "bun:test";
+import type { MaybeError } from "@firtoz/maybe-error";
 import { type ServerType, serve } from "@hono/node-server";
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
+import type { StatusCode, SuccessStatusCode } from "hono/utils/http-status";
 import { z } from "zod";
-import { honoFetcher, type TypedHonoFetcher } from "./honoFetcher";
+import {
+	type HttpErrorResponse,
+	honoFetcher,
+	type ParsePathParams,
+	TimeoutError,
+	type TypedHonoFetcher,
+} from "./honoFetcher";
 
 describe("honoFetcher", () => {
 	const app = new Hono()
@@ -58,7 +73,119 @@ describe("honoFetcher", () => {
 				const body = c.req.valid("json");
 				return c.json({ success: true, body });
 			},
-		);
+		)
+		.get("/accounts/:id", (c) => {
+			const id = c.req.param("id");
+			if (id === "missing") {
+				return c.json({ message: `Account ${id} not found` }, 404);
+			}
+			if (id === "locked") {
+				return c.json({ reason: "locked", until: 123 }, 423);
+			}
+			return c.json({ id, balance: 100 }, 200);
+		})
+		.post(
+			"/transfers",
+			zValidator("json", z.object({ amount: z.number() })),
+			(c) => c.json({ amount: c.req.valid("json").amount }, 200),
+		)
+		.get("/greeting", (c) => {
+			return c.text("hello");
+		})
+		.get(
+			"/search",
+			zValidator(
+				"query",
+				z.object({
+					q: z.string(),
+					tags: z.array(z.string()).optional(),
+					page: z.string().optional(),
+				}),
+			),
+			(c) => {
+				return c.json({ query: c.req.valid("query"), url: c.req.url });
+			},
+		)
+		.get(
+			"/feed",
+			zValidator("query", z.object({ cursor: z.string().optional() })),
+			(c) => {
+				return c.json({ query: c.req.valid("query") });
+			},
+		)
+		.get(
+			"/me",
+			zValidator(
+				"header",
+				z.object({
+					authorization: z.string(),
+					"x-trace-id": z.string().optional(),
+				}),
+			),
+			zValidator(
+				"cookie",
+				z.object({ session: z.string(), theme: z.string().optional() }),
+			),
+			(c) => {
+				return c.json({
+					header: c.req.valid("header"),
+					cookie: c.req.valid("cookie"),
+				});
+			},
+		)
+		.post(
+			"/attachments",
+			zValidator(
+				"form",
+				z.object({
+					title: z.string(),
+					file: z.instanceof(File),
+					tags: z.array(z.string()),
+				}),
+			),
+			async (c) => {
+				const { title, file, tags } = c.req.valid("form");
+				return c.json({
+					title,
+					name: file.name,
+					type: file.type,
+					content: await file.text(),
+					tags,
+				});
+			},
+		)
+		.post(
+			"/tags",
+			zValidator(
+				"form",
+				z.object({ "tags[]": z.array(z.string()).optional() }),
+			),
+			(c) => c.json(c.req.valid("form")),
+		)
+		.post(
+			"/address",
+			zValidator("form", z.object({ address: z.object({ city: z.string() }) })),
+			(c) => c.json(c.req.valid("form")),
+		)
+		.post("/profile", async (c) => {
+			return c.json(await c.req.parseBody({ all: true, dot: true }));
+		})
+		.put("/blobs/:key", async (c) => {
+			const buffer = await c.req.arrayBuffer();
+			return c.json({
+				key: c.req.param("key"),
+				contentType: c.req.header("Content-Type") ?? null,
+				content: new TextDecoder().decode(buffer),
+			});
+		})
+		.post("/inspect", async (c) => {
+			return c.json({
+				method: c.req.method,
+				contentType: c.req.header("Content-Type") ?? null,
+				custom: c.req.header("X-Custom-Header") ?? null,
+				body: await c.req.text(),
+			});
+		});
 
 	const runFetcherTests = (
 		description: string,
@@ -121,6 +248,126 @@ describe("honoFetcher", () => {
 				});
 			});
 
+			it("should upload files with repeated keys for arrays", async () => {
+				const response = await fetcher.post({
+					url: "/attachments",
+					form: {
+						title: "Report",
+						file: new File(["hello"], "report.txt", { type: "text/plain" }),
+						tags: ["a", "b"],
+					},
+				});
+
+				expect(await response.json()).toEqual({
+					title: "Report",
+					name: "report.txt",
+					type: expect.stringMatching(/^text\/plain/),
+					content: "hello",
+					tags: ["a", "b"],
+				});
+			});
+
+			it("should send arrays of any length under [] keys", async () => {
+				const tagLists = [];
+				for (const tags of [["a", "b"], ["a"], []]) {
+					const response = await fetcher.post({
+						url: "/tags",
+						form: { "tags[]": tags },
+					});
+					tagLists.push((await response.json())["tags[]"]);
+				}
+				expect(tagLists).toEqual([["a", "b"], ["a"], undefined]);
+			});
+
+			it("should require two items for arrays under other keys", async () => {
+				for (const tags of [["a"], []]) {
+					const response = await fetcher.post({
+						url: "/attachments",
+						form: {
+							title: "Report",
+							file: new File(["hello"], "report.txt"),
+							// @ts-expect-error - One value arrives as a string, none as no key
+							tags,
+						},
+					});
+					expect(response.status).toBe(400);
+				}
+			});
+
+			it("should not send nested form objects as objects to form validators", async () => {
+				const response = await fetcher.post({
+					url: "/address",
+					// @ts-expect-error Form validators only read strings and files
+					form: { address: { city: "London" } },
+				});
+				expect(response.status).toBe(400);
+			});
+
+			it("should send nested form objects as dot-separated keys", async () => {
+				const response = await fetcher.post({
+					url: "/profile",
+					form: {
+						name: "Ada",
+						address: { city: "London", zip: 12345 },
+						empty: null,
+					},
+				});
+
+				expect(await response.json()).toEqual({
+					name: "Ada",
+					address: { city: "London", zip: "12345" },
+				});
+			});
+
+			it("should send raw binary bodies as octet streams", async () => {
+				const response = await fetcher.put({
+					url: "/blobs/:key",
+					params: { key: "greeting" },
+					raw: new TextEncoder().encode("hello").buffer,
+				});
+
+				expect(await response.json()).toEqual({
+					key: "greeting",
+					contentType: "application/octet-stream",
+					content: "hello",
+				});
+			});
+
+			it("should stream raw bodies with a content type from init", async () => {
+				const stream = new ReadableStream<Uint8Array>({
+					start(controller) {
+						controller.enqueue(new TextEncoder().encode("line 1\n"));
+						controller.enqueue(new TextEncoder().encode("line 2\n"));
+						controller.close();
+					},
+				});
+
+				const response = await fetcher.put({
+					url: "/blobs/:key",
+					params: { key: "log" },
+					raw: stream,
+					init: { headers: { "Content-Type": "application/x-ndjson" } },
+				});
+
+				expect(await response.json()).toEqual({
+					key: "log",
+					contentType: "application/x-ndjson",
+					content: "line 1\nline 2\n",
+				});
+			});
+
+			it("should use the type of raw blobs", async () => {
+				const response = await fetcher.put({
+					url: "/blobs/:key",
+					params: { key: "page" },
+					raw: new Blob(["<p>hi</p>"], { type: "text/html" }),
+				});
+
+				const data = await response.json();
+				expect(data.contentType).toStartWith("text/html");
+				expect(data.content).toBe("<p>hi</p>");
+			});
+
 			it("should send data to a route with JSON data", async () => {
 				const response = await fetcher.post({
 					url: "/items-json",
@@ -144,6 +391,261 @@ describe("honoFetcher", () => {
 				// For now, we'll just check if the response is successful
 				expect(response.ok).toBe(true);
 			});
+
+			it("should send typed query parameters", async () => {
+				const response = await fetcher.get({
+					url: "/search",
+					query: { q: "a b&c=d", tags: ["x", "y/z"], page: undefined },
+				});
+
+				const data = await response.json();
+				expect(data.query).toEqual({ q: "a b&c=d", tags: ["x", "y/z"] });
+			});
+
+			it("should require queries with required keys", async () => {
+				// @ts-expect-error - The `q` query parameter is required
+				const missing = () => fetcher.get({ url: "/search" });
+				expect(missing).toBeFunction();
+
+				const response = await fetcher.get({ url: "/feed" });
+				const data = await response.json();
+				expect(data.query).toEqual({});
+			});
+
+			describe("typed responses", () => {
+				it("should narrow the response by status", async () => {
+					const response = await fetcher.get({
+						url: "/accounts/:id",
+						params: { id: "missing" },
+					});
+
+					expectTypeOf(response.status).toEqualTypeOf<200 | 404 | 423>();
+					expect(response.status).toBe(404);
+					if (response.status === 404) {
+						const data = await response.json();
+						expectTypeOf(data).toEqualTypeOf<{ message: string }>();
+						expect(data).toEqual({ message: "Account missing not found" });
+					}
+				});
+
+				it("should narrow the response by ok", async () => {
+					const response = await fetcher.get({
+						url: "/accounts/:id",
+						params: { id: "7" },
+					});
+
+					expect(response.ok).toBe(true);
+					if (response.ok) {
+						expectTypeOf(response.status).toEqualTypeOf<200>();
+						expectTypeOf(await response.json()).toEqualTypeOf<{
+							id: string;
+							balance: number;
+						}>();
+					}
+				});
+
+				it("should type text responses", async () => {
+					const response = await fetcher.get({ url: "/greeting" });
+
+					expectTypeOf(response.text).returns.resolves.toEqualTypeOf<"hello">();
+					expectTypeOf(response.json).returns.resolves.toBeNever();
+					expect(await response.text()).toBe("hello");
+				});
+			});
+
+			describe("init merging", () => {
+				it("should keep the JSON content type alongside custom headers", async () => {
+					const response = await fetcher.post({
+						url: "/inspect",
+						body: { item: "newItem" },
+						init: { headers: { "X-Custom-Header": "custom" } },
+					});
+
+					expect(await response.json()).toEqual({
+						method: "POST",
+						contentType: "application/json",
+						custom: "custom",
+						body: '{"item":"newItem"}',
+					});
+				});
+
+				it("should not let init override the typed method or body", async () => {
+					const response = await fetcher.post({
+						url: "/inspect",
+						body: { item: "typed" },
+						init: { method: "DELETE", body: "ignored" },
+					});
+
+					const data = await response.json();
+					expect(data.method).toBe("POST");
+					expect(data.body).toBe('{"item":"typed"}');
+				});
+
+				it("should keep a content type from init regardless of its case", async () => {
+					const response = await fetcher.post({
+						url: "/inspect",
+						body: { item: "newItem" },
+						init: { headers: { "content-type": "application/vnd.api+json" } },
+					});
+
+					const data = await response.json();
+					expect(data.contentType).toBe("application/vnd.api+json");
+				});
+
+				it("should let the JSON content type be opted out of", async () => {
+					const response = await fetcher.post({
+						url: "/inspect",
+						body: { item: "newItem" },
+						autoContentType: false,
+					});
+
+					const data = await response.json();
+					expect(data.contentType).not.toBe("application/json");
+					expect(data.body).toBe('{"item":"newItem"}');
+				});
+
+				it("should let the runtime set the content type of form data", async () => {
+					const response = await fetcher.post({
+						url: "/inspect",
+						form: { item: "newItem" },
+						init: {
+							headers: {
+								"Content-Type": "application/json",
+								"X-Custom-Header": "custom",
+							},
+						},
+					});
+
+					const data = await response.json();
+					expect(data.contentType).toStartWith(
+						"multipart/form-data; boundary=",
+					);
+					expect(data.custom).toBe("custom");
+					expect(data.body).toContain('name="item"');
+				});
+
+				it("should let typed headers replace init headers of any case", async () => {
+					const response = await fetcher.get({
+						url: "/me",
+						headers: { authorization: "typed" },
+						cookies: { session: "abc" },
+						init: { headers: { AUTHORIZATION: "from-init" } },
+					});
+
+					const data = await response.json();
+					expect(data.header.authorization).toBe("typed");
+				});
+			});
+
+			it("should send typed headers and cookies", async () => {
+				const response = await fetcher.get({
+					url: "/me",
+					headers: { authorization: "Bearer token" },
+					cookies: { session: "abc 123", theme: "dark" },
+				});
+
+				const data = await response.json();
+				expect(data).toEqual({
+					header: { authorization: "Bearer token" },
+					cookie: { session: "abc 123", theme: "dark" },
+				});
+			});
+
+			it("should require headers and cookies with required keys", async () => {
+				const missingHeaders = () =>
+					// @ts-expect-error - The `authorization` header is required
+					fetcher.get({ url: "/me", cookies: { session: "abc" } });
+				const missingCookies = () =>
+					// @ts-expect-error - The `session` cookie is required
+					fetcher.get({ url: "/me", headers: { authorization: "token" } });
+
+				expect(missingHeaders).toBeFunction();
+				expect(missingCookies).toBeFunction();
+			});
+
+			it("should merge typed cookies with cookies from init", async () => {
+				const response = await fetcher.get({
+					url: "/me",
+					headers: { authorization: "Bearer token" },
+					cookies: { session: "abc" },
+					init: { headers: { Cookie: "theme=light" } },
+				});
+
+				const data = await response.json();
+				expect(data.cookie).toEqual({ session: "abc", theme: "light" });
+			});
+
+			it("should resolve safe requests to the parsed body", async () => {
+				const result = await fetcher.safe.get({
+					url: "/accounts/:id",
+					params: { id: "42" },
+				});
+
+				expectTypeOf(result).toEqualTypeOf<
+					MaybeError<
+						{ id: string; balance: number },
+						| HttpErrorResponse<404, { message: string }>
+						| HttpErrorResponse<423, { reason: string; until: number }>
+						| HttpErrorResponse<
+								Exclude<StatusCode, SuccessStatusCode | 404 | 423>,
+								unknown
+						  >
+					>
+				>();
+				expect(result).toEqual({
+					success: true,
+					result: { id: "42", balance: 100 },
+				});
+			});
+
+			it("should resolve non-2xx safe requests to typed errors", async () => {
+				const result = await fetcher.safe.get({
+					url: "/accounts/:id",
+					params: { id: "locked" },
+				});
+
+				expect(result).toEqual({
+					success: false,
+					error: { status: 423, body: { reason: "locked", until: 123 } },
+				});
+				if (!result.success && result.error.status === 423) {
+					expectTypeOf(result.error.body).toEqualTypeOf<{
+						reason: string;
+						until: number;
+					}>();
+				}
+			});
+
+			it("should keep undeclared error statuses reachable", async () => {
+				const result = await fetcher.safe.post({
+					url: "/transfers",
+					body: { amount: "ten" as unknown as number },
+				});
+
+				expect(result.success).toBe(false);
+				if (!result.success) {
+					expectTypeOf(result.error).toEqualTypeOf<
+						HttpErrorResponse<Exclude<StatusCode, SuccessStatusCode>, unknown>
+					>();
+					expect(result.error.status).toBe(400);
+					expect(result.error.body).toMatchObject({ success: false });
+				}
+			});
+
+			it("should type errors of routes without explicit statuses as unknown", async () => {
+				const result = await fetcher.safe.post({
+					url: "/items",
+					body: { item: "newItem" },
+				});
+
+				expect(result).toEqual({
+					success: true,
+					result: { success: true, item: "newItem" },
+				});
+				if (!result.success) {
+					expectTypeOf(result.error.body).toEqualTypeOf<unknown>();
+				}
+			});
 		});
 	};
 
@@ -151,6 +653,17 @@ describe("honoFetcher", () => {
 		return honoFetcher<typeof app>(app.request);
 	});
 
+	it("should send typed query parameters to websocket routes", async () => {
+		const fetcher = honoFetcher<typeof app>(app.request);
+		const response = await fetcher.websocket({
+			url: "/feed",
+			query: { cursor: "42" },
+			config: { autoAccept: false },
+		});
+
+		expect(await response.json()).toEqual({ query: { cursor: "42" } });
+	});
+
 	describe("fetcher helpers", () => {
 		let server: ServerType;
 		let port: number;
@@ -184,6 +697,310 @@ describe("honoFetcher", () => {
 		});
 	});
 
+	describe("path parameters", () => {
+		const pathsApp = new Hono()
+			.get("/files/:name", (c) => {
+				return c.json({ name: c.req.param("name") });
+			})
+			.get("/animals/:type?", (c) => {
+				return c.json({ type: c.req.param("type") ?? null });
+			})
+			.get("/posts/:id{[0-9]+}/:slug?", (c) => {
+				return c.json({ id: c.req.param("id"), slug: c.req.param("slug") });
+			})
+			.get("/assets/*", (c) => {
+				return c.json({ path: c.req.path });
+			});
+
+		const api = honoFetcher<typeof pathsApp>(pathsApp.request);
+
+		it("should parse optional, regex and wildcard parameters", () => {
+			expectTypeOf<
+				ParsePathParams<"/posts/:id{[0-9]+}/:slug?">
+			>().toEqualTypeOf<{ id: string; slug?: string }>();
+			expectTypeOf<ParsePathParams<"/tags/:tag{[a-z]+}?">>().toEqualTypeOf<{
+				tag?: string;
+			}>();
+			expectTypeOf<ParsePathParams<"/assets/*">>().toEqualTypeOf<{
+				"*"?: string;
+			}>();
+			expectTypeOf<ParsePathParams<"/users">>().toBeNever();
+		});
+
+		it("should encode parameter values", async () => {
+			const response = await api.get({
+				url: "/files/:name",
+				params: { name: "my notes/draft?.txt" },
+			});
+
+			expect(await response.json()).toEqual({ name: "my notes/draft?.txt" });
+		});
+
+		it("should drop missing optional parameters", async () => {
+			const withType = await api.get({
+				url: "/animals/:type?",
+				params: { type: "cat" },
+			});
+			expect(await withType.json()).toEqual({ type: "cat" });
+
+			const withoutType = await api.get({ url: "/animals/:type?" });
+			expect(await withoutType.json()).toEqual({ type: null });
+		});
+
+		it("should fill regex parameters", async () => {
+			const response = await api.get({
+				url: "/posts/:id{[0-9]+}/:slug?",
+				params: { id: "42", slug: "hello" },
+			});
+
+			expect(await response.json()).toEqual({ id: "42", slug: "hello" });
+		});
+
+		it("should keep the slashes of wildcards", async () => {
+			const response = await api.get({
+				url: "/assets/*",
+				params: { "*": "images/logo 1.png" },
+			});
+
+			expect(await response.json()).toEqual({
+				path: "/assets/images/logo 1.png",
+			});
+		});
+
+		it("should throw when a required parameter is missing", async () => {
+			const error = await api
+				.get({
+					url: "/files/:name",
+					params: {} as { name: string },
+				})
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(Error);
+			expect(error.message).toBe(
+				'Missing path parameter "name" for /files/:name',
+			);
+		});
+	});
+
+	describe("methods", () => {
+		const methodsApp = new Hono()
+			.on("PURGE", "/cache/:key", (c) => {
+				return c.json({ purged: c.req.param("key") });
+			})
+			.options("/items", (c) => {
+				c.header("Allow", "GET, POST");
+				return c.body(null, 204);
+			})
+			.get("/files/:name", (c) => {
+				c.header("X-File-Name", c.req.param("name"));
+				return c.text("file content");
+			})
+			.all("/echo", (c) => {
+				return c.json({ method: c.req.method });
+			});
+
+		const api = honoFetcher<typeof methodsApp>(methodsApp.request);
+
+		it("should call custom methods registered with app.on", async () => {
+			const response = await api.method("purge")({
+				url: "/cache/:key",
+				params: { key: "users" },
+			});
+
+			const data = await response.json();
+			expectTypeOf(data).toEqualTypeOf<{ purged: string }>();
+			expect(data).toEqual({ purged: "users" });
+
+			const purge = api.method("purge");
+			// @ts-expect-error - `/echo` is the only other route accepting PURGE
+			await purge({ url: "/items" }).catch(() => {});
+		});
+
+		it("should only have properties for the standard methods", async () => {
+			const fetcher: Record<string, unknown> = api;
+			expect(fetcher.purge).toBeUndefined();
+			expect(fetcher.gett).toBeUndefined();
+			expect(Object.keys(api).sort()).toEqual([
+				"delete",
+				"get",
+				"head",
+				"invalidate",
+				"method",
+				"options",
+				"patch",
+				"post",
+				"put",
+				"safe",
+				"stream",
+				"websocket",
+			]);
+
+			const result = await api.safe.method("purge")({
+				url: "/cache/:key",
+				params: { key: "users" },
+			});
+			expect(result).toEqual({ success: true, result: { purged: "users" } });
+		});
+
+		it("should call options routes and get routes with head", async () => {
+			const options = await api.options({ url: "/items" });
+			expect(options.status).toBe(204);
+			expect(options.headers.get("Allow")).toBe("GET, POST");
+
+			const head = await api.head({
+				url: "/files/:name",
+				params: { name: "notes.txt" },
+			});
+			expect(head.status).toBe(200);
+			expect(head.headers.get("X-File-Name")).toBe("notes.txt");
+			expect(await head.text()).toBe("");
+		});
+
+		it("should type safe head results without a body", async () => {
+			const result = await api.safe.head({
+				url: "/files/:name",
+				params: { name: "notes.txt" },
+			});
+
+			expect(result.success).toBe(true);
+			if (result.success) {
+				expectTypeOf(result.result).toEqualTypeOf<undefined>();
+				expect(result.result).toBeUndefined();
+			} else {
+				expectTypeOf(result.error.body).toEqualTypeOf<undefined>();
+			}
+		});
+
+		it("should call app.all routes with every method", async () => {
+			const responses = [
+				await api.get({ url: "/echo" }),
+				await api.post({ url: "/echo" }),
+				await api.patch({ url: "/echo" }),
+				await api.method("purge")({ url: "/echo" }),
+			];
+			expect(
+				await Promise.all(responses.map((response) => response.json())),
+			).toEqual([
+				{ method: "GET" },
+				{ method: "POST" },
+				{ method: "PATCH" },
+				{ method: "PURGE" },
+			]);
+
+			const result = await api.safe.delete({ url: "/echo" });
+			expect(result).toEqual({ success: true, result: { method: "DELETE" } });
+		});
+	});
+
+	describe("timeouts", () => {
+		const slowApp = new Hono()
+			.get("/slow/:ms", async (c) => {
+				await new Promise((resolve) =>
+					setTimeout(resolve, Number(c.req.param("ms"))),
+				);
+				return c.json({ done: true });
+			})
+			.get("/slow-body/:ms", (c) => {
+				const body = new ReadableStream<Uint8Array>({
+					async start(controller) {
+						controller.enqueue(new TextEncoder().encode('{"done":'));
+						await new Promise((resolve) =>
+							setTimeout(resolve, Number(c.req.param("ms"))),
+						);
+						controller.enqueue(new TextEncoder().encode("true}"));
+						controller.close();
+					},
+				});
+				return c.body(body, 200, { "Content-Type": "application/json" });
+			});
+
+		it("should throw a TimeoutError when the fetcher timeout expires", async () => {
+			const fetcher = honoFetcher<typeof slowApp>(slowApp.request, {
+				timeout: 10,
+			});
+
+			const error = await fetcher
+				.get({ url: "/slow/:ms", params: { ms: "200" } })
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(TimeoutError);
+			expect(error.timeout).toBe(10);
+			expect(error.url).toBe("/slow/200");
+		});
+
+		it("should cover reading the body of safe requests", async () => {
+			const fetcher = honoFetcher<typeof slowApp>(slowApp.request, {
+				timeout: 20,
+			});
+
+			const start = Date.now();
+			const error = await fetcher.safe
+				.get({ url: "/slow-body/:ms", params: { ms: "200" } })
+				.catch((e) => e);
+			expect(error).toBeInstanceOf(TimeoutError);
+			expect(Date.now() - start).toBeLessThan(150);
+
+			const result = await fetcher.safe.get({
+				url: "/slow-body/:ms",
+				params: { ms: "1" },
+			});
+			// Typed as a stream, since the route returns one
+			expect(result as unknown).toEqual({
+				success: true,
+				result: { done: true },
+			});
+		});
+
+		it("should let each call override the timeout", async () => {
+			const fetcher = honoFetcher<typeof slowApp>(slowApp.request, {
+				timeout: 10,
+			});
+
+			const response = await fetcher.get({
+				url: "/slow/:ms",
+				params: { ms: "20" },
+				timeout: 1000,
+			});
+			expect(await response.json()).toEqual({ done: true });
+
+			const error = await honoFetcher<typeof slowApp>(slowApp.request)
+				.get({ url: "/slow/:ms", params: { ms: "200" }, timeout: 10 })
+				.catch((e) => e);
+			expect(error).toBeInstanceOf(TimeoutError);
+		});
+
+		it("should abort the request signal on timeout and on caller abort", async () => {
+			const signals: AbortSignal[] = [];
+			const fetcher = honoFetcher<typeof slowApp>(
+				(url, init) => {
+					if (init?.signal) {
+						signals.push(init.signal);
+					}
+					return slowApp.request(url, init);
+				},
+				{ timeout: 10 },
+			);
+
+			await fetcher
+				.get({ url: "/slow/:ms", params: { ms: "100" } })
+				.catch(() => undefined);
+			expect(signals[0]?.aborted).toBe(true);
+			expect(signals[0]?.reason).toBeInstanceOf(TimeoutError);
+
+			const controller = new AbortController();
+			controller.abort("cancelled");
+			await fetcher
+				.get({
+					url: "/slow/:ms",
+					params: { ms: "1" },
+					init: { signal: controller.signal },
+				})
+				.catch(() => undefined);
+			expect(signals[1]?.aborted).toBe(true);
+			expect(signals[1]?.reason).toBe("cancelled");
+		});
+	});
+
 	// Type checking tests are handled by TypeScript at compile time
 	// The actual type safety is validated through usage in the tests above
 });
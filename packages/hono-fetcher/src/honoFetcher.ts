@@ -1,74 +1,390 @@
+import { fail, type MaybeError, success } from "@firtoz/maybe-error";
 import type { Hono } from "hono";
 import type { ExtractSchema } from "hono/types";
+import type {
+	ContentfulStatusCode,
+	ServerErrorStatusCode,
+	StatusCode,
+	SuccessStatusCode,
+} from "hono/utils/http-status";
+import type { HasRequiredKeys } from "hono/utils/types";
+import { type CacheOptions, createResponseCache } from "./cache";
+import {
+	applyMiddleware,
+	type FetcherMiddleware,
+	RetryError,
+	type RetryOptions,
+	retry,
+} from "./middleware";
+import {
+	readStream,
+	type StreamFormat,
+	type StreamItem,
+	type StreamOptions,
+} from "./stream";
 
-export type ParsePathParams<T extends string> =
-	T extends `${infer _Start}/:${infer Param}/${infer Rest}`
-		? { [K in Param | keyof ParsePathParams<`/${Rest}`>]: string }
-		: T extends `${infer _Start}/:${infer Param}`
-			? { [K in Param]: string }
+// The parameter of a path segment, with a trailing `?` when it is optional:
+// `:id` and `:id{[0-9]+}` are required, `:id?` and the `*` wildcard optional
+type PathParamKey<TSegment extends string> =
+	TSegment extends `:${infer NameWithPattern}`
+		? NameWithPattern extends `${infer Name}{${infer Pattern}`
+			? Pattern extends `${string}?`
+				? `${Name}?`
+				: Name
+			: NameWithPattern
+		: TSegment extends "*"
+			? "*?"
 			: never;
 
-export type HttpMethod = "get" | "post" | "put" | "delete" | "patch";
+type PathParamKeys<T extends string> =
+	T extends `${infer Segment}/${infer Rest}`
+		? PathParamKey<Segment> | PathParamKeys<Rest>
+		: PathParamKey<T>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+export type ParsePathParams<T extends string> = [PathParamKeys<T>] extends [
+	never,
+]
+	? never
+	: Simplify<
+			{
+				[K in PathParamKeys<T> as K extends `${string}?` ? never : K]: string;
+			} & {
+				[K in PathParamKeys<T> as K extends `${infer Name}?`
+					? Name
+					: never]?: string;
+			}
+		>;
+
+export type HttpMethod =
+	| "get"
+	| "post"
+	| "put"
+	| "delete"
+	| "patch"
+	| "head"
+	| "options";
 
 export type HonoSchemaKeys<T extends Hono> = string & keyof ExtractSchema<T>;
 
+type StripDollar<TKey> = TKey extends `$${infer M}` ? M : never;
+
+// Methods registered in a schema, without the `$` prefix
+type SchemaMethod<TSchema> = {
+	[K in keyof TSchema]: StripDollar<keyof TSchema[K]>;
+}[keyof TSchema];
+
+/**
+ * The methods an app can be called with: the standard HTTP methods and custom
+ * methods registered with `app.on("PURGE", ...)`, lowercased like in Hono's
+ * schema.
+ */
+export type AppMethod<TApp extends Hono> =
+	| HttpMethod
+	| Exclude<SchemaMethod<ExtractSchema<TApp>>, "all">;
+
+// Like Hono, `head` requests are answered by `get` routes and `app.all`
+// routes answer every method
+type MethodEndpoint<TRoute, TMethod extends string> = TRoute extends {
+	[key in `$${TMethod}`]: infer E;
+}
+	? E
+	: TMethod extends "head"
+		? MethodEndpoint<TRoute, "get">
+		: TRoute extends { $all: infer E }
+			? E
+			: never;
+
 type FilterKeysByMethod<
 	TApp extends ExtractSchema<unknown>,
-	TMethod extends HttpMethod,
+	TMethod extends string,
 > = {
-	[K in keyof TApp as TApp[K] extends { [key in `$${TMethod}`]: unknown }
-		? K
-		: never]: TApp[K];
+	[K in keyof TApp as [MethodEndpoint<TApp[K], TMethod>] extends [never]
+		? never
+		: K]: { [key in `$${TMethod}`]: MethodEndpoint<TApp[K], TMethod> };
 };
 
 type HonoSchema<TApp extends Hono> = {
-	[M in HttpMethod]: FilterKeysByMethod<ExtractSchema<TApp>, M>;
+	[M in AppMethod<TApp>]: FilterKeysByMethod<ExtractSchema<TApp>, M>;
 };
 
-export type JsonResponse<T> = Omit<Response, "json"> & {
-	json: () => Promise<T>;
+/**
+ * A response typed by the route's output, status and format, like Hono's
+ * `ClientResponse`. Routes answering with several statuses give a union of
+ * responses, so checking `status` or `ok` narrows the type of `json()`.
+ * `c.text` routes type `text()` and have a `json()` that never resolves to a
+ * value.
+ */
+export type JsonResponse<
+	T,
+	TStatus extends number = ContentfulStatusCode,
+	TFormat extends string = "json",
+> = Omit<Response, "json" | "text" | "status" | "ok"> & {
+	status: TStatus;
+	ok: TStatus extends SuccessStatusCode
+		? true
+		: TStatus extends Exclude<StatusCode, SuccessStatusCode>
+			? false
+			: boolean;
+	json: () => TFormat extends "text"
+		? Promise<never>
+		: TFormat extends "json"
+			? Promise<T>
+			: Promise<unknown>;
+	text: () => TFormat extends "text"
+		? Promise<T extends string ? T : string>
+		: Promise<string>;
 };
 
-type HasPathParams<T extends string> = T extends `${string}:${string}`
-	? true
-	: false;
+type HasPathParams<T extends string> = [PathParamKeys<T>] extends [never]
+	? false
+	: true;
 
 type FetcherParams<SchemaPath extends string> =
-	HasPathParams<SchemaPath> extends true
-		? {
-				params: ParsePathParams<SchemaPath>;
-				init?: RequestInit;
-			}
+	(HasPathParams<SchemaPath> extends true
+		? HasRequiredKeys<ParsePathParams<SchemaPath>> extends true
+			? {
+					params: ParsePathParams<SchemaPath>;
+				}
+			: {
+					params?: ParsePathParams<SchemaPath>;
+				}
 		: {
 				params?: never;
-				init?: RequestInit;
-			};
+			}) & {
+		init?: RequestInit;
+		/** Timeout in milliseconds, overriding the fetcher's `timeout` option */
+		timeout?: number;
+	};
 
 // biome-ignore lint/complexity/noBannedTypes: We need an empty object to remove the body and form keys from the request object
 type EmptyObject = {};
 
-type TypedMethodFetcher<T extends Hono, M extends HttpMethod> = <
+type BodyOptions = {
+	/**
+	 * Whether to send a content type when `init.headers` doesn't set one:
+	 * `application/json` for JSON bodies, the type of `raw` blobs and
+	 * `application/octet-stream` for other binary `raw` bodies (defaults to true)
+	 */
+	autoContentType?: boolean;
+};
+
+/**
+ * Values accepted in form data. Arrays are sent as repeated keys and nested
+ * objects as dot-separated keys (`address.city`), which
+ * `parseBody({ all: true, dot: true })` reads back. Hono's form validator reads
+ * keys ending in `[]` as arrays, other keys only when they repeat, and never
+ * reads dot-separated keys.
+ */
+export type FormValue =
+	| string
+	| number
+	| boolean
+	| Blob
+	| null
+	| undefined
+	| readonly FormValue[]
+	| { [key: string]: FormValue };
+
+// Hono's form validator reads a key as an array when it ends in `[]` or is sent
+// more than once, so arrays under other keys need at least two items
+type RepeatedFormValue<V> = V extends readonly (infer U)[]
+	? readonly [U, U, ...U[]]
+	: V;
+
+type ValidatedForm<TForm> = {
+	[K in keyof TForm]: K extends `${string}[]`
+		? TForm[K]
+		: RepeatedFormValue<TForm[K]>;
+};
+
+type SchemaEndpoint<
+	T extends Hono,
+	M extends AppMethod<T>,
+	SchemaPath extends string & keyof HonoSchema<T>[M],
+> = HonoSchema<T>[M][SchemaPath][`$${M}` & keyof HonoSchema<T>[M][SchemaPath]];
+
+type SchemaInput<
+	T extends Hono,
+	M extends AppMethod<T>,
+	SchemaPath extends string & keyof HonoSchema<T>[M],
+> = SchemaEndpoint<T, M, SchemaPath> extends { input: infer I } ? I : never;
+
+/**
+ * Values accepted in a query string. Arrays are sent as repeated keys, which
+ * Hono's query validator reads back as arrays.
+ */
+export type QueryValue =
+	| string
+	| number
+	| boolean
+	| null
+	| undefined
+	| readonly (string | number | boolean)[];
+
+// A request field typed from one of the route's validator targets, required
+// when the validated object has required keys
+type ValidatedField<
+	TInput,
+	TTarget extends string,
+	TField extends string,
+> = TInput extends { [K in TTarget]: infer V extends object }
+	? HasRequiredKeys<V> extends true
+		? { [K in TField]: V }
+		: { [K in TField]?: V }
+	: EmptyObject;
+
+// The `query`, `headers` and `cookies` fields, typed from the route's validators
+type ValidatedParams<TInput> = ValidatedField<TInput, "query", "query"> &
+	ValidatedField<TInput, "header", "headers"> &
+	ValidatedField<TInput, "cookie", "cookies">;
+
+type ValidatedRequest = {
+	query?: Record<string, QueryValue>;
+	headers?: Record<string, string>;
+	cookies?: Record<string, string>;
+};
+
+type MethodRequest<
+	T extends Hono,
+	M extends AppMethod<T>,
+	SchemaPath extends string & keyof HonoSchema<T>[M],
+> = {
+	url: SchemaPath;
+} & FetcherParams<SchemaPath> &
+	ValidatedParams<SchemaInput<T, M, SchemaPath>> &
+	(M extends "get" | "delete" | "head" | "options"
+		? EmptyObject
+		: BodyParams<T, M, SchemaPath> & BodyOptions);
+
+type TypedMethodFetcher<T extends Hono, M extends AppMethod<T>> = <
 	SchemaPath extends string & keyof HonoSchema<T>[M],
 >(
-	request: {
-		url: SchemaPath;
-	} & FetcherParams<SchemaPath> &
-		(M extends "get" | "delete" ? EmptyObject : BodyParams<T, M, SchemaPath>),
+	request: MethodRequest<T, M, SchemaPath>,
 ) => Promise<SchemaOutput<T, M, SchemaPath>>;
 
+/**
+ * The error of a `safe` request: the status of a non-2xx response and its
+ * parsed body.
+ */
+export type HttpErrorResponse<
+	TStatus extends number = number,
+	TBody = unknown,
+> = {
+	status: TStatus;
+	body: TBody;
+};
+
+type SafeSuccessOutput<E> = E extends { status: infer S; output: infer O }
+	? Extract<S, SuccessStatusCode> extends never
+		? never
+		: O
+	: never;
+
+// Routes without an explicit status code (`c.json(data)`) have every status in
+// their schema; their error bodies are not known.
+type DeclaredErrorOutput<E> = E extends { status: infer S; output: infer O }
+	? Exclude<S, SuccessStatusCode> extends never
+		? never
+		: [ServerErrorStatusCode] extends [S]
+			? HttpErrorResponse<Exclude<S, SuccessStatusCode> & number, unknown>
+			: HttpErrorResponse<Exclude<S, SuccessStatusCode> & number, O>
+	: never;
+
+// Validators, `notFound` and `onError` can still answer with statuses the
+// route doesn't declare
+type UndeclaredErrorStatus<E> = Exclude<
+	StatusCode,
+	SuccessStatusCode | (E extends { status: infer S } ? S : never)
+>;
+
+type SafeErrorOutput<E> =
+	| DeclaredErrorOutput<E>
+	| ([UndeclaredErrorStatus<E>] extends [never]
+			? never
+			: HttpErrorResponse<UndeclaredErrorStatus<E> & number, unknown>);
+
+// HEAD responses have no body, whatever the `get` route returns
+type HeadErrorOutput<TError> = TError extends HttpErrorResponse<infer S>
+	? HttpErrorResponse<S, undefined>
+	: never;
+
+type SafeOutput<E, M> = M extends "head"
+	? MaybeError<undefined, HeadErrorOutput<SafeErrorOutput<E>>>
+	: MaybeError<SafeSuccessOutput<E>, SafeErrorOutput<E>>;
+
+type TypedSafeMethodFetcher<T extends Hono, M extends AppMethod<T>> = <
+	SchemaPath extends string & keyof HonoSchema<T>[M],
+>(
+	request: MethodRequest<T, M, SchemaPath>,
+) => Promise<SafeOutput<SchemaEndpoint<T, M, SchemaPath>, M>>;
+
+/**
+ * Method fetchers that resolve to a `MaybeError` instead of a `Response`.
+ *
+ * Successful responses resolve to their parsed body. Non-2xx responses resolve
+ * to a failure with the status and parsed body, typed per status code when the
+ * route declares one (`c.json(body, 404)`).
+ */
+export type TypedSafeHonoFetcher<T extends Hono> = {
+	[M in AvailableMethods<T> & HttpMethod]: TypedSafeMethodFetcher<T, M>;
+} & {
+	/** The safe fetcher of any method of the app, including custom methods */
+	method: <M extends AvailableMethods<T>>(
+		method: M,
+	) => TypedSafeMethodFetcher<T, M>;
+};
+
+type TypedStreamMethodFetcher<T extends Hono, M extends AppMethod<T>> = <
+	SchemaPath extends string & keyof HonoSchema<T>[M],
+	TFormat extends StreamFormat,
+	TData = TFormat extends "sse" ? string : unknown,
+>(
+	request: MethodRequest<T, M, SchemaPath> & StreamOptions<TFormat, TData>,
+) => AsyncGenerator<StreamItem<TFormat, TData>, void, undefined>;
+
+/**
+ * Method fetchers that read a streamed response as an async iterable of
+ * server-sent events or NDJSON lines.
+ *
+ * Streaming routes return an untyped `Response`, so items are typed by the
+ * `parse` function.
+ */
+export type TypedStreamHonoFetcher<T extends Hono> = {
+	[M in AvailableMethods<T> & HttpMethod]: TypedStreamMethodFetcher<T, M>;
+} & {
+	/** The stream fetcher of any method of the app, including custom methods */
+	method: <M extends AvailableMethods<T>>(
+		method: M,
+	) => TypedStreamMethodFetcher<T, M>;
+};
+
+// One response per endpoint, as the schema has an endpoint per status
+type EndpointResponse<E> = E extends {
+	output: infer O;
+	outputFormat: infer F extends string;
+	status: infer S extends number;
+}
+	? JsonResponse<O, S, F>
+	: never;
+
+// `head` requests get the statuses of `get` routes, without a body
+type HeadResponse<E> = E extends { status: infer S extends number }
+	? JsonResponse<unknown, S, "body">
+	: never;
+
 type SchemaOutput<
 	T extends Hono,
-	M extends HttpMethod,
+	M extends AppMethod<T>,
 	SchemaPath extends string & keyof HonoSchema<T>[M],
-	DollarM extends `$${M}` & keyof HonoSchema<T>[M][SchemaPath] = `$${M}` &
-		keyof HonoSchema<T>[M][SchemaPath],
-> = "output" extends keyof HonoSchema<T>[M][SchemaPath][DollarM]
-	? JsonResponse<HonoSchema<T>[M][SchemaPath][DollarM]["output"]>
-	: never;
+> = M extends "head"
+	? HeadResponse<SchemaEndpoint<T, M, SchemaPath>>
+	: EndpointResponse<SchemaEndpoint<T, M, SchemaPath>>;
 
 type BodyParams<
 	TApp extends Hono,
-	TMethod extends HttpMethod,
+	TMethod extends AppMethod<TApp>,
 	SchemaPath extends string & keyof HonoSchema<TApp>[TMethod],
 	DollarMethod extends `$${TMethod}` &
 		keyof HonoSchema<TApp>[TMethod][SchemaPath] = `$${TMethod}` &
@@ -81,21 +397,25 @@ type BodyParams<
 							body: HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["json"];
 					  }
 					| {
-							form: HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["form"];
+							form: ValidatedForm<
+								HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["form"]
+							>;
 					  }
 			: {
 					body: HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["json"];
 				}
 		: "form" extends keyof HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]
 			? {
-					form: HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["form"];
+					form: ValidatedForm<
+						HonoSchema<TApp>[TMethod][SchemaPath][DollarMethod]["input"]["form"]
+					>;
 				}
-			: { body?: unknown } | { form?: unknown }
+			: { body?: unknown } | { form?: unknown } | { raw?: BodyInit }
 	: EmptyObject;
 
 type AvailableMethods<T extends Hono> = {
-	[M in HttpMethod]: keyof HonoSchema<T>[M] extends never ? never : M;
-}[HttpMethod];
+	[M in AppMethod<T>]: keyof HonoSchema<T>[M] extends never ? never : M;
+}[AppMethod<T>];
 
 export interface WebSocketConfig {
 	/**
@@ -116,37 +436,304 @@ export type TypedWebSocketFetcher<T extends Hono> = <
 	request: {
 		url: SchemaPath;
 		config?: WebSocketConfig;
-	} & FetcherParams<SchemaPath>,
+	} & FetcherParams<SchemaPath> &
+		ValidatedParams<SchemaInput<T, "get", SchemaPath>>,
 ) => Promise<Response>;
 
 export type BaseTypedHonoFetcher<T extends Hono> = {
-	[M in AvailableMethods<T>]: TypedMethodFetcher<T, M>;
+	[M in AvailableMethods<T> & HttpMethod]: TypedMethodFetcher<T, M>;
+} & {
+	/**
+	 * The fetcher of any method of the app, including custom methods
+	 * registered with `app.on`, lowercased like in Hono's schema.
+	 */
+	method: <M extends AvailableMethods<T>>(
+		method: M,
+	) => TypedMethodFetcher<T, M>;
+	safe: TypedSafeHonoFetcher<T>;
+	stream: TypedStreamHonoFetcher<T>;
+	/**
+	 * Drops the cached responses of paths matching a route such as
+	 * `/users/:id`, or every cached response without one. Does nothing without
+	 * the `cache` option.
+	 */
+	invalidate: (route?: string) => void;
 } & (keyof HonoSchema<T>["get"] extends never
-	? // biome-ignore lint/complexity/noBannedTypes: We really do want an empty object if the get method is not available
-		{}
-	: { websocket: TypedWebSocketFetcher<T> });
+		? // biome-ignore lint/complexity/noBannedTypes: We really do want an empty object if the get method is not available
+			{}
+		: { websocket: TypedWebSocketFetcher<T> });
+
+// `null` and `undefined` values are skipped, arrays become repeated keys
+const serializeQuery = (query: Record<string, QueryValue>): string => {
+	const searchParams = new URLSearchParams();
+
+	for (const [key, value] of Object.entries(query)) {
+		if (value === undefined || value === null) {
+			continue;
+		}
 
-const createMethodFetcher = <T extends Hono, M extends HttpMethod>(
+		if (Array.isArray(value)) {
+			for (const item of value) {
+				searchParams.append(key, String(item));
+			}
+		} else {
+			searchParams.append(key, String(value));
+		}
+	}
+
+	return searchParams.toString();
+};
+
+// Matches `:name`, `:name{pattern}` and `:name?` segments
+const paramSegmentPattern = /^:([^{?]+)(\{.*\})?(\?)?$/;
+
+// Values are encoded, so they can contain `/`, `?` or spaces. The `*` wildcard
+// keeps its slashes. Missing optional parameters and wildcards drop their
+// segment.
+const fillPath = (
+	url: string,
+	params: Record<string, string | undefined>,
+): string => {
+	const segments: string[] = [];
+
+	for (const segment of url.split("/")) {
+		if (segment === "*") {
+			const value = params["*"];
+			if (value !== undefined && value !== null) {
+				segments.push(
+					String(value).split("/").map(encodeURIComponent).join("/"),
+				);
+			}
+			continue;
+		}
+
+		const match = paramSegmentPattern.exec(segment);
+		if (!match) {
+			segments.push(segment);
+			continue;
+		}
+
+		const [, name, , optional] = match;
+		const value = params[name];
+		if (value === undefined || value === null) {
+			if (!optional) {
+				throw new Error(`Missing path parameter "${name}" for ${url}`);
+			}
+			continue;
+		}
+
+		segments.push(encodeURIComponent(String(value)));
+	}
+
+	return segments.join("/") || "/";
+};
+
+// Parameters match one segment, or their regex. Optional parameters may be
+// missing and `*` matches the rest of the path.
+const routePattern = (route: string): RegExp => {
+	let source = "";
+
+	for (const segment of route.split("/").slice(1)) {
+		if (segment === "*") {
+			source += "(?:/.*)?";
+			continue;
+		}
+
+		const match = paramSegmentPattern.exec(segment);
+		if (!match) {
+			source += `/${segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+			continue;
+		}
+
+		const [, , pattern, optional] = match;
+		const value = pattern ? `(?:${pattern.slice(1, -1)})` : "[^/]+";
+		source += optional ? `(?:/${value})?` : `/${value}`;
+	}
+
+	return new RegExp(`^${source || "/"}$`);
+};
+
+const buildUrl = (
+	url: string,
+	params: object | undefined,
+	query: Record<string, QueryValue> | undefined,
+): string => {
+	let finalUrl = fillPath(
+		url,
+		(params ?? {}) as Record<string, string | undefined>,
+	);
+
+	const search = query ? serializeQuery(query) : "";
+	if (search) {
+		finalUrl += `${finalUrl.includes("?") ? "&" : "?"}${search}`;
+	}
+
+	return finalUrl;
+};
+
+// Typed headers replace headers of the same name from `init`, typed cookies
+// are appended to any `Cookie` header from `init`
+const applyValidatedHeaders = (
+	target: Headers,
+	headers: Record<string, string> | undefined,
+	cookies: Record<string, string> | undefined,
+) => {
+	if (headers) {
+		for (const [name, value] of Object.entries(headers)) {
+			if (value !== undefined) {
+				target.set(name, value);
+			}
+		}
+	}
+
+	if (cookies) {
+		const cookieHeader = Object.entries(cookies)
+			.filter(([, value]) => value !== undefined)
+			.map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+			.join("; ");
+		const existing = target.get("Cookie");
+
+		if (cookieHeader) {
+			target.set(
+				"Cookie",
+				existing ? `${existing}; ${cookieHeader}` : cookieHeader,
+			);
+		}
+	}
+};
+
+/**
+ * Thrown when a request does not complete within its `timeout`.
+ */
+export class TimeoutError extends Error {
+	/** The timeout in milliseconds */
+	readonly timeout: number;
+	/** The requested path or URL */
+	readonly url: string;
+
+	constructor(timeout: number, url: string) {
+		super(`Request to ${url} timed out after ${timeout}ms`);
+		this.name = "TimeoutError";
+		this.timeout = timeout;
+		this.url = url;
+	}
+}
+
+// Aborts the request when either the caller's signal aborts or the timeout
+// expires, and rejects with a TimeoutError even if the fetch function ignores
+// the signal. The timeout also covers `read`, for callers consuming the body.
+const fetchWithTimeout = async <R, O = R>(
+	fetcher: (request: string, init?: RequestInit) => R | Promise<R>,
+	url: string,
+	init: RequestInit,
+	timeout: number | undefined,
+	read: (response: R) => O | Promise<O> = (response) =>
+		response as unknown as O,
+): Promise<O> => {
+	if (timeout === undefined) {
+		return read(await fetcher(url, init));
+	}
+
+	const controller = new AbortController();
+	const callerSignal = init.signal;
+	const onCallerAbort = () => controller.abort(callerSignal?.reason);
+	if (callerSignal?.aborted) {
+		onCallerAbort();
+	} else {
+		callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+	}
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timedOut = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const error = new TimeoutError(timeout, url);
+			controller.abort(error);
+			reject(error);
+		}, timeout);
+	});
+
+	try {
+		return await Promise.race([
+			Promise.resolve(
+				fetcher(url, { ...init, signal: controller.signal }),
+			).then(read),
+			timedOut,
+		]);
+	} finally {
+		clearTimeout(timer);
+		callerSignal?.removeEventListener("abort", onCallerAbort);
+	}
+};
+
+// Arrays become repeated keys and nested objects dot-separated keys, files
+// and blobs are appended as is
+const appendFormValue = (
+	formData: FormData,
+	key: string,
+	value: FormValue,
+): void => {
+	if (value === undefined || value === null) {
+		return;
+	}
+
+	if (value instanceof Blob) {
+		formData.append(key, value);
+	} else if (Array.isArray(value)) {
+		for (const item of value) {
+			appendFormValue(formData, key, item);
+		}
+	} else if (typeof value === "object") {
+		for (const [childKey, child] of Object.entries(value)) {
+			appendFormValue(formData, `${key}.${childKey}`, child);
+		}
+	} else {
+		formData.append(key, String(value));
+	}
+};
+
+// Blobs keep their own type and binary data is sent as an octet stream, other
+// raw bodies get their type from the runtime
+const rawContentType = (body: BodyInit): string | undefined => {
+	if (body instanceof Blob) {
+		return body.type || undefined;
+	}
+
+	if (
+		body instanceof ArrayBuffer ||
+		ArrayBuffer.isView(body) ||
+		body instanceof ReadableStream
+	) {
+		return "application/octet-stream";
+	}
+
+	return undefined;
+};
+
+const createMethodFetcher = <T extends Hono, M extends AppMethod<T>>(
 	fetcher: (
 		request: string,
 		init?: RequestInit,
 	) => ReturnType<T["request"]> | Promise<ReturnType<T["request"]>>,
 	method: M,
+	defaultTimeout: number | undefined,
+	read?: (response: ReturnType<T["request"]>) => unknown,
 ): TypedMethodFetcher<T, M> => {
 	return (async (request) => {
-		let finalUrl: string = request.url;
-
-		const { init = {}, params } = request;
-
-		if (params && typeof params === "object") {
-			finalUrl = Object.entries(params).reduce((acc, [key, value]) => {
-				return acc.replace(`:${key}`, value as string);
-			}, finalUrl);
-		}
+		const {
+			init = {},
+			timeout = defaultTimeout,
+			autoContentType = true,
+			params,
+			query,
+			headers,
+			cookies,
+		} = request as typeof request & ValidatedRequest & BodyOptions;
+		const finalUrl = buildUrl(request.url, params, query);
 
 		const requestAsOptionalFormBody = request as {
-			form?: unknown;
+			form?: Record<string, FormValue>;
 			body?: unknown;
+			raw?: BodyInit;
 		};
 
 		let body: BodyInit | undefined;
@@ -155,64 +742,169 @@ const createMethodFetcher = <T extends Hono, M extends HttpMethod>(
 			for (const [key, value] of Object.entries(
 				requestAsOptionalFormBody.form,
 			)) {
-				formData.append(key, value as string);
+				appendFormValue(formData, key, value);
 			}
 			body = formData;
-		} else if (requestAsOptionalFormBody.body) {
+		} else if (requestAsOptionalFormBody.raw !== undefined) {
+			body = requestAsOptionalFormBody.raw;
+		} else if (requestAsOptionalFormBody.body !== undefined) {
 			body = JSON.stringify(requestAsOptionalFormBody.body) as BodyInit;
 		}
 
+		// Header names are case-insensitive: `init.headers` come first, then
+		// typed headers and cookies replace headers of the same name
 		const newHeaders = new Headers(
 			init.headers as unknown as ConstructorParameters<typeof Headers>[0],
 		);
+		applyValidatedHeaders(newHeaders, headers, cookies);
 
-		if (body && !requestAsOptionalFormBody.form) {
-			newHeaders.set("Content-Type", "application/json");
+		if (requestAsOptionalFormBody.form) {
+			// The runtime sets the multipart boundary, which must match the body
+			newHeaders.delete("Content-Type");
+		} else if (
+			body !== undefined &&
+			autoContentType &&
+			!newHeaders.has("Content-Type")
+		) {
+			const contentType =
+				requestAsOptionalFormBody.raw === undefined
+					? "application/json"
+					: rawContentType(requestAsOptionalFormBody.raw);
+			if (contentType) {
+				newHeaders.set("Content-Type", contentType);
+			}
 		}
 
 		try {
-			return await fetcher(finalUrl, {
-				method: method.toUpperCase(),
-				headers: newHeaders,
-				...(body ? { body } : {}),
-				...init,
-			});
+			return await fetchWithTimeout(
+				fetcher,
+				finalUrl,
+				{
+					...init,
+					// The typed method and body always win over `init`
+					method: method.toUpperCase(),
+					...(body !== undefined ? { body } : {}),
+					// Streamed uploads must be half-duplex
+					...(body instanceof ReadableStream ? { duplex: "half" } : {}),
+					headers: newHeaders,
+				},
+				timeout,
+				read,
+			);
 		} catch (error) {
+			if (
+				error instanceof RetryError ||
+				error instanceof TimeoutError ||
+				init.signal?.aborted
+			) {
+				throw error;
+			}
 			console.error(`Error ${method}ing`, error);
 			throw new Error(`Failed to ${method} ${finalUrl}: ${error}`);
 		}
 	}) as TypedMethodFetcher<T, M>;
 };
 
+const readBody = async (response: Response): Promise<unknown> => {
+	const text = await response.text();
+	if (!text) {
+		return undefined;
+	}
+
+	const contentType = response.headers.get("Content-Type") ?? "";
+	if (!contentType.includes("json")) {
+		return text;
+	}
+
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+};
+
+// Passed to the method fetcher as its `read`, so the timeout covers the body
+const toSafeResult = async (response: Response) => {
+	const body = await readBody(response);
+
+	if (!response.ok) {
+		return fail({ status: response.status, body });
+	}
+
+	return success(body);
+};
+
+const createStreamMethodFetcher = <T extends Hono, M extends AppMethod<T>>(
+	methodFetcher: TypedMethodFetcher<T, M>,
+): TypedStreamMethodFetcher<T, M> => {
+	return ((
+		request: { init?: RequestInit } & StreamOptions<StreamFormat, unknown>,
+	) => {
+		const { format, parse, reconnect, init = {}, ...rest } = request;
+
+		return readStream(
+			async (lastEventId, signal) => {
+				const headers = new Headers(
+					init.headers as unknown as ConstructorParameters<typeof Headers>[0],
+				);
+				if (!headers.has("Accept")) {
+					headers.set(
+						"Accept",
+						format === "sse" ? "text/event-stream" : "application/x-ndjson",
+					);
+				}
+				if (lastEventId !== undefined) {
+					headers.set("Last-Event-ID", lastEventId);
+				}
+
+				return (await methodFetcher({
+					...rest,
+					init: { ...init, headers, signal },
+				} as Parameters<TypedMethodFetcher<T, M>>[0])) as unknown as Response;
+			},
+			{ format, parse, reconnect },
+			init.signal ?? undefined,
+		);
+	}) as unknown as TypedStreamMethodFetcher<T, M>;
+};
+
 const createWebSocketFetcher = <T extends Hono>(
 	fetcher: (
 		request: string,
 		init?: RequestInit,
 	) => ReturnType<T["request"]> | Promise<ReturnType<T["request"]>>,
+	defaultTimeout: number | undefined,
 ): TypedWebSocketFetcher<T> => {
 	return (async (request) => {
-		let finalUrl: string = request.url;
-
-		const { init = {}, params, config } = request;
+		const {
+			init = {},
+			params,
+			query,
+			headers,
+			cookies,
+			config,
+			timeout = defaultTimeout,
+		} = request as typeof request & ValidatedRequest;
 		const autoAccept = config?.autoAccept ?? true; // Default to true
-
-		if (params && typeof params === "object") {
-			finalUrl = Object.entries(params).reduce((acc, [key, value]) => {
-				return acc.replace(`:${key}`, value as string);
-			}, finalUrl);
-		}
+		const finalUrl = buildUrl(request.url, params, query);
 
 		const newHeaders = new Headers(
 			init.headers as unknown as ConstructorParameters<typeof Headers>[0],
 		);
+		applyValidatedHeaders(newHeaders, headers, cookies);
 		newHeaders.set("Upgrade", "websocket");
 
 		try {
-			const response = await fetcher(finalUrl, {
-				method: "GET",
-				headers: newHeaders,
-				...init,
-			});
+			const response = await fetchWithTimeout(
+				fetcher,
+				finalUrl,
+				{
+					...init,
+					method: "GET",
+					headers: newHeaders,
+				},
+				timeout,
+			);
 
 			// Auto-accept the WebSocket if configured (default: true)
 			if (autoAccept && response.webSocket) {
@@ -221,6 +913,9 @@ const createWebSocketFetcher = <T extends Hono>(
 
 			return response;
 		} catch (error) {
+			if (error instanceof RetryError || error instanceof TimeoutError) {
+				throw error;
+			}
 			console.error("Error upgrading to WebSocket", error);
 			throw new Error(`Failed to upgrade WebSocket at ${finalUrl}: ${error}`);
 		}
@@ -229,33 +924,107 @@ const createWebSocketFetcher = <T extends Hono>(
 
 export type TypedHonoFetcher<T extends Hono> = BaseTypedHonoFetcher<T>;
 
+const standardMethods: HttpMethod[] = [
+	"get",
+	"post",
+	"put",
+	"delete",
+	"patch",
+	"head",
+	"options",
+];
+
+// Custom methods registered with `app.on` are only known to the types, so
+// they are reached through `method` rather than a property of their own
+const createMethodFetchers = <TFetcher>(
+	create: (method: string) => TFetcher,
+	properties: object = {},
+) => ({
+	...Object.fromEntries(
+		standardMethods.map((method) => [method, create(method)]),
+	),
+	method: (method: string) => create(method.toLowerCase()),
+	...properties,
+});
+
+export interface HonoFetcherOptions {
+	/**
+	 * Middleware wrapping every request, in order: the first one sees the
+	 * request first and the response last.
+	 */
+	middleware?: FetcherMiddleware[];
+	/**
+	 * Retries failed requests, see {@link retry}. Runs after the other
+	 * middleware, so they see a single request per call.
+	 */
+	retry?: boolean | RetryOptions;
+	/**
+	 * Timeout in milliseconds for every request, including retries. Requests
+	 * that take longer are aborted and throw a {@link TimeoutError}.
+	 */
+	timeout?: number;
+	/**
+	 * Deduplicates `GET` and `HEAD` requests in flight and caches their
+	 * responses, see {@link CacheOptions}. Runs after the other middleware, so
+	 * headers they add are part of the cache key, and before retries.
+	 */
+	cache?: boolean | CacheOptions;
+}
+
 export const honoFetcher = <T extends Hono>(
-	fetcher: (
+	baseFetcher: (
 		request: string,
 		init?: RequestInit,
 	) => ReturnType<T["request"]> | Promise<ReturnType<T["request"]>>,
+	options: HonoFetcherOptions = {},
 ): TypedHonoFetcher<T> => {
-	const methods = ["get", "post", "put", "delete", "patch"] as const;
+	const cache = options.cache
+		? createResponseCache(options.cache === true ? {} : options.cache)
+		: undefined;
 
-	const result = methods.reduce(
-		(acc, method) => {
-			(
-				acc as TypedHonoFetcher<T> & {
-					[M in typeof method]: TypedMethodFetcher<T, M>;
-				}
-			)[method] = createMethodFetcher(fetcher, method) as TypedMethodFetcher<
-				T,
-				typeof method
-			>;
-			return acc;
-		},
-		{} as TypedHonoFetcher<T>,
-	);
+	const middleware = [...(options.middleware ?? [])];
+	if (cache) {
+		middleware.push(cache.middleware);
+	}
+	if (options.retry) {
+		middleware.push(retry(options.retry === true ? {} : options.retry));
+	}
 
-	// Add websocket method
-	(
-		result as TypedHonoFetcher<T> & { websocket?: TypedWebSocketFetcher<T> }
-	).websocket = createWebSocketFetcher(fetcher);
+	const fetcher =
+		middleware.length > 0
+			? (applyMiddleware(
+					baseFetcher as (url: string, init?: RequestInit) => Promise<Response>,
+					middleware,
+				) as (
+					request: string,
+					init?: RequestInit,
+				) => Promise<ReturnType<T["request"]>>)
+			: baseFetcher;
 
-	return result;
+	const createMethod = (
+		method: string,
+		read?: (response: ReturnType<T["request"]>) => unknown,
+	) =>
+		createMethodFetcher<T, AppMethod<T>>(
+			fetcher,
+			method as AppMethod<T>,
+			options.timeout,
+			read,
+		);
+
+	return createMethodFetchers((method) => createMethod(method), {
+		safe: createMethodFetchers((method) =>
+			createMethod(method, (response) =>
+				toSafeResult(response as unknown as Response),
+			),
+		),
+		stream: createMethodFetchers((method) =>
+			createStreamMethodFetcher(createMethod(method)),
+		),
+		websocket: createWebSocketFetcher(fetcher, options.timeout),
+		invalidate: (route?: string) => {
+			const pattern = route === undefined ? undefined : routePattern(route);
+			cache?.invalidate(pattern && ((path) => pattern.test(path)));
+		},
+	}) as unknown as TypedHonoFetcher<T>;
 };
@@ -1,3 +1,5 @@
+// Caching
+export type { CacheOptions } from "./cache";
 // Convenience wrapper for direct HTTP fetching
 export { honoDirectFetcher } from "./honoDirectFetcher";
 // Durable Object integration
@@ -13,13 +15,46 @@ export {
 } from "./honoDoFetcher";
 // Core fetcher functionality
 export {
+	type AppMethod,
 	type BaseTypedHonoFetcher,
+	type FormValue,
+	type HonoFetcherOptions,
 	type HonoSchemaKeys,
+	type HttpErrorResponse,
 	type HttpMethod,
 	honoFetcher,
 	type JsonResponse,
 	type ParsePathParams,
+	type QueryValue,
+	TimeoutError,
 	type TypedHonoFetcher,
+	type TypedSafeHonoFetcher,
+	type TypedStreamHonoFetcher,
 	type TypedWebSocketFetcher,
 	type WebSocketConfig,
 } from "./honoFetcher";
+// Middleware
+export {
+	type AuthOptions,
+	auth,
+	type FetcherMiddleware,
+	type FetcherNext,
+	type FetcherRequest,
+	type InterceptorHooks,
+	interceptor,
+	type LogOptions,
+	log,
+	RetryError,
+	type RetryFailure,
+	type RetryOptions,
+	retry,
+} from "./middleware";
+// Streaming
+export {
+	type ReconnectOptions,
+	type ServerSentEvent,
+	StreamError,
+	type StreamFormat,
+	type StreamItem,
+	type StreamOptions,
+} from "./stream";
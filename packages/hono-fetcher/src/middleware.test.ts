@@ -0,0 +1,330 @@
+import { describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { honoFetcher, TimeoutError } from "./honoFetcher";
+import {
+	auth,
+	type FetcherMiddleware,
+	interceptor,
+	log,
+	RetryError,
+	retry,
+} from "./middleware";
+
+describe("middleware", () => {
+	let flakyCalls = 0;
+
+	const app = new Hono()
+		.get("/echo", (c) => {
+			return c.json({
+				authorization: c.req.header("Authorization") ?? null,
+				trace: c.req.header("X-Trace-Id") ?? null,
+			});
+		})
+		.get("/flaky", (c) => {
+			flakyCalls++;
+			return flakyCalls < 3
+				? c.json({ ok: false }, 503)
+				: c.json({ ok: true }, 200);
+		})
+		.put("/flaky", async (c) => {
+			flakyCalls++;
+			await c.req.text();
+			return c.json({ ok: false }, 503);
+		})
+		.post("/flaky", (c) => {
+			flakyCalls++;
+			return flakyCalls < 3
+				? c.json({ ok: false }, 503)
+				: c.json({ ok: true }, 200);
+		});
+
+	it("should run middleware in order around the request", async () => {
+		const calls: string[] = [];
+		const track =
+			(name: string): FetcherMiddleware =>
+			async (request, next) => {
+				calls.push(`${name}:before`);
+				const response = await next(request);
+				calls.push(`${name}:after`);
+				return response;
+			};
+
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [track("a"), track("b")],
+		});
+		await api.get({ url: "/echo" });
+
+		expect(calls).toEqual(["a:before", "b:before", "b:after", "a:after"]);
+	});
+
+	it("should let middleware modify the request", async () => {
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [
+				async (request, next) => {
+					const headers = new Headers(
+						request.init.headers as unknown as ConstructorParameters<
+							typeof Headers
+						>[0],
+					);
+					headers.set("X-Trace-Id", "trace-1");
+					return next({ ...request, init: { ...request.init, headers } });
+				},
+			],
+		});
+
+		const response = await api.get({ url: "/echo" });
+		expect(await response.json()).toEqual({
+			authorization: null,
+			trace: "trace-1",
+		});
+	});
+
+	it("should let middleware short-circuit and replace responses", async () => {
+		let fetched = false;
+		const api = honoFetcher<typeof app>(
+			(url, init) => {
+				fetched = true;
+				return app.request(url, init);
+			},
+			{
+				middleware: [
+					interceptor({
+						onRequest: () => Response.json({ cached: true }),
+					}),
+				],
+			},
+		);
+
+		const response = await api.get({ url: "/echo" });
+		const data: unknown = await response.json();
+		expect(data).toEqual({ cached: true });
+		expect(fetched).toBe(false);
+
+		const replacing = honoFetcher<typeof app>(app.request, {
+			middleware: [
+				interceptor({
+					onResponse: (response) =>
+						new Response(null, { status: response.status + 1 }),
+				}),
+			],
+		});
+		expect((await replacing.get({ url: "/echo" })).status).toBe(201);
+	});
+
+	it("should add authorization headers with auth()", async () => {
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [auth(async () => "secret")],
+		});
+
+		const response = await api.get({ url: "/echo" });
+		expect(await response.json()).toEqual({
+			authorization: "Bearer secret",
+			trace: null,
+		});
+
+		const explicit = await api.get({
+			url: "/echo",
+			init: { headers: { Authorization: "Basic abc" } },
+		});
+		expect((await explicit.json()).authorization).toBe("Basic abc");
+	});
+
+	it("should log requests with log()", async () => {
+		const lines: string[] = [];
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [log({ logger: (line) => lines.push(line) })],
+		});
+
+		await api.get({ url: "/echo" });
+		expect(lines).toHaveLength(1);
+		expect(lines[0]).toMatch(/^GET \/echo 200 \(\d+ms\)$/);
+	});
+
+	it("should retry failed responses with retry()", async () => {
+		flakyCalls = 0;
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [retry({ attempts: 3, delay: 0 })],
+		});
+
+		const response = await api.get({ url: "/flaky" });
+		expect(response.status).toBe(200);
+		expect(flakyCalls).toBe(3);
+	});
+
+	it("should return the last response once attempts run out", async () => {
+		flakyCalls = 0;
+		const failures: number[] = [];
+		let exhausted: number | undefined;
+		const api = honoFetcher<typeof app>(app.request, {
+			middleware: [
+				retry({
+					attempts: 2,
+					delay: 0,
+					onRetry: ({ attempt, response }) => {
+						failures.push(attempt);
+						expect(response?.status).toBe(503);
+					},
+					onExhausted: ({ attempt }) => {
+						exhausted = attempt;
+					},
+				}),
+			],
+		});
+
+		const response = await api.get({ url: "/flaky" });
+		expect(response.status).toBe(503);
+		expect(await response.json()).toEqual({ ok: false });
+		expect(failures).toEqual([1]);
+		expect(exhausted).toBe(2);
+		expect(flakyCalls).toBe(2);
+
+		flakyCalls = 0;
+		const result = await api.safe.get({ url: "/flaky" });
+		expect(result).toEqual({
+			success: false,
+			error: { status: 503, body: { ok: false } },
+		});
+	});
+
+	it("should cancel the bodies of retried responses", async () => {
+		const cancelled: boolean[] = [];
+		const api = honoFetcher<typeof app>(
+			async () =>
+				new Response(
+					new ReadableStream({
+						cancel: () => {
+							cancelled.push(true);
+						},
+					}),
+					{ status: 503 },
+				),
+			{ retry: { attempts: 3, delay: 0 } },
+		);
+
+		const response = await api.get({ url: "/echo" });
+		expect(response.status).toBe(503);
+		expect(cancelled).toEqual([true, true]);
+	});
+
+	it("should not retry requests with streamed bodies", async () => {
+		flakyCalls = 0;
+		const api = honoFetcher<typeof app>(app.request, {
+			retry: { delay: 0 },
+		});
+
+		const response = await api.put({
+			url: "/flaky",
+			raw: new ReadableStream({
+				start(controller) {
+					controller.enqueue(new TextEncoder().encode("data"));
+					controller.close();
+				},
+			}),
+		});
+		expect(response.status).toBe(503);
+		expect(flakyCalls).toBe(1);
+	});
+
+	it("should stop retrying when the caller aborts", async () => {
+		let calls = 0;
+		const controller = new AbortController();
+		const api = honoFetcher<typeof app>(
+			async () => {
+				calls++;
+				controller.abort("cancelled");
+				return new Response(null, { status: 503 });
+			},
+			{ retry: { delay: 50 } },
+		);
+
+		const start = Date.now();
+		const error = await api
+			.get({ url: "/echo", init: { signal: controller.signal } })
+			.catch((e) => e);
+		expect(error).toBe("cancelled");
+		expect(calls).toBe(1);
+		expect(Date.now() - start).toBeLessThan(40);
+	});
+
+	it("should stop retrying once the timeout expires", async () => {
+		let calls = 0;
+		const api = honoFetcher<typeof app>(
+			async () => {
+				calls++;
+				return new Response(null, { status: 503 });
+			},
+			{ retry: { delay: 20 }, timeout: 10 },
+		);
+
+		const error = await api.get({ url: "/echo" }).catch((e) => e);
+		expect(error).toBeInstanceOf(TimeoutError);
+		await new Promise((resolve) => setTimeout(resolve, 60));
+		expect(calls).toBe(1);
+	});
+
+	it("should retry thrown errors", async () => {
+		let calls = 0;
+		const api = honoFetcher<typeof app>(
+			(url, init) => {
+				calls++;
+				if (calls === 1) {
+					throw new Error("Durable Object reset");
+				}
+				return app.request(url, init);
+			},
+			{ retry: { delay: 0 } },
+		);
+
+		expect((await api.get({ url: "/echo" })).status).toBe(200);
+		expect(calls).toBe(2);
+
+		const broken = honoFetcher<typeof app>(
+			() => {
+				throw new Error("Overloaded");
+			},
+			{ retry: { attempts: 2, delay: 0 } },
+		);
+		const error = await broken.get({ url: "/echo" }).catch((e) => e);
+		expect(error).toBeInstanceOf(RetryError);
+		expect(error.attempts).toBe(2);
+		expect(error.cause).toEqual(new Error("Overloaded"));
+	});
+
+	it("should only retry non-idempotent methods with an idempotency key", async () => {
+		flakyCalls = 0;
+		const api = honoFetcher<typeof app>(app.request, {
+			retry: { delay: 0 },
+		});
+
+		expect((await api.post({ url: "/flaky" })).status).toBe(503);
+		expect(flakyCalls).toBe(1);
+
+		const response = await api.post({
+			url: "/flaky",
+			init: { headers: { "Idempotency-Key": "key-1" } },
+		});
+		expect(response.status).toBe(200);
+		expect(flakyCalls).toBe(3);
+	});
+
+	it("should wait as long as Retry-After asks", async () => {
+		let calls = 0;
+		const api = honoFetcher<typeof app>(
+			async (url, init) => {
+				calls++;
+				if (calls === 1) {
+					return new Response(null, {
+						status: 429,
+						headers: { "Retry-After": "0.05" },
+					});
+				}
+				return app.request(url, init);
+			},
+			{ retry: { delay: 0 } },
+		);
+
+		const start = Date.now();
+		expect((await api.get({ url: "/echo" })).status).toBe(200);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+	});
+});
@@ -0,0 +1,392 @@
+/**
+ * A request as seen by middleware: the path (or URL) passed to the underlying
+ * fetch function and its `RequestInit`.
+ */
+export type FetcherRequest = {
+	url: string;
+	init: RequestInit;
+};
+
+/**
+ * Calls the next middleware, or the underlying fetch function for the last one.
+ */
+export type FetcherNext = (request: FetcherRequest) => Promise<Response>;
+
+/**
+ * Wraps every request made by a fetcher, in the style of Hono middleware.
+ *
+ * A middleware can change the request before calling `next`, return a response
+ * without calling `next` to short-circuit, call `next` several times, or
+ * replace the response returned by `next`.
+ *
+ * @example
+ * ```typescript
+ * const tracing: FetcherMiddleware = async (request, next) => {
+ *   const headers = new Headers(request.init.headers);
+ *   headers.set("X-Trace-Id", crypto.randomUUID());
+ *   return next({ ...request, init: { ...request.init, headers } });
+ * };
+ * ```
+ */
+export type FetcherMiddleware = (
+	request: FetcherRequest,
+	next: FetcherNext,
+) => Promise<Response>;
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks for {@link interceptor}.
+ */
+export type InterceptorHooks = {
+	/**
+	 * Runs before the request. Returning a request replaces it, returning a
+	 * `Response` skips the request and the remaining middleware.
+	 */
+	onRequest?: (
+		request: FetcherRequest,
+	) => MaybePromise<FetcherRequest | Response | undefined>;
+	/** Runs after the response. Returning a response replaces it. */
+	onResponse?: (
+		response: Response,
+		request: FetcherRequest,
+	) => MaybePromise<Response | undefined>;
+};
+
+/**
+ * Runs middleware in order around a fetch function.
+ */
+export const applyMiddleware = (
+	fetch: (url: string, init?: RequestInit) => MaybePromise<Response>,
+	middleware: FetcherMiddleware[],
+): ((url: string, init?: RequestInit) => Promise<Response>) => {
+	const run = (index: number, request: FetcherRequest): Promise<Response> => {
+		const current = middleware[index];
+		if (!current) {
+			return Promise.resolve(fetch(request.url, request.init));
+		}
+
+		return current(request, (nextRequest) => run(index + 1, nextRequest));
+	};
+
+	return (url, init = {}) => run(0, { url, init });
+};
+
+/**
+ * Creates a middleware from request and response hooks.
+ *
+ * @example
+ * ```typescript
+ * const cache = new Map<string, Response>();
+ * const offline = interceptor({
+ *   onRequest: (request) => cache.get(request.url)?.clone(),
+ *   onResponse: (response, request) => {
+ *     cache.set(request.url, response.clone());
+ *   },
+ * });
+ * ```
+ */
+export const interceptor = ({
+	onRequest,
+	onResponse,
+}: InterceptorHooks): FetcherMiddleware => {
+	return async (request, next) => {
+		let finalRequest = request;
+
+		if (onRequest) {
+			const replacement = await onRequest(request);
+			if (replacement && !("init" in replacement)) {
+				// Not checked with `instanceof`, runtimes may replace the global Response
+				return replacement;
+			}
+			if (replacement) {
+				finalRequest = replacement;
+			}
+		}
+
+		const response = await next(finalRequest);
+		if (!onResponse) {
+			return response;
+		}
+
+		return (await onResponse(response, finalRequest)) ?? response;
+	};
+};
+
+/**
+ * Options for the {@link auth} middleware.
+ */
+export type AuthOptions = {
+	/** The header to set (defaults to `Authorization`) */
+	header?: string;
+	/** Prefix of the token, or an empty string for none (defaults to `Bearer`) */
+	scheme?: string;
+};
+
+/**
+ * Adds an authorization header to every request that doesn't have one.
+ *
+ * @param token - The token, or a function returning it; no header is set when
+ * it returns `undefined`
+ * @example
+ * ```typescript
+ * const api = honoDirectFetcher<AppType>(baseUrl, {
+ *   middleware: [auth(() => session.accessToken)],
+ * });
+ * ```
+ */
+export const auth = (
+	token: string | (() => MaybePromise<string | undefined>),
+	{ header = "Authorization", scheme = "Bearer" }: AuthOptions = {},
+): FetcherMiddleware => {
+	return async (request, next) => {
+		const headers = new Headers(
+			request.init.headers as unknown as ConstructorParameters<
+				typeof Headers
+			>[0],
+		);
+		if (headers.has(header)) {
+			return next(request);
+		}
+
+		const value = typeof token === "function" ? await token() : token;
+		if (value === undefined) {
+			return next(request);
+		}
+
+		headers.set(header, scheme ? `${scheme} ${value}` : value);
+		return next({ ...request, init: { ...request.init, headers } });
+	};
+};
+
+/**
+ * Options for the {@link log} middleware.
+ */
+export type LogOptions = {
+	/** Receives one line per request (defaults to `console.log`) */
+	logger?: (message: string) => void;
+};
+
+/**
+ * Logs the method, URL, status and duration of every request.
+ *
+ * @example
+ * ```typescript
+ * honoFetcher<typeof app>(app.request, { middleware: [log()] });
+ * // GET /users/123 200 (4ms)
+ * ```
+ */
+export const log = ({
+	logger = console.log,
+}: LogOptions = {}): FetcherMiddleware => {
+	return async (request, next) => {
+		const method = request.init.method ?? "GET";
+		const start = Date.now();
+
+		try {
+			const response = await next(request);
+			logger(
+				`${method} ${request.url} ${response.status} (${Date.now() - start}ms)`,
+			);
+			return response;
+		} catch (error) {
+			logger(
+				`${method} ${request.url} failed (${Date.now() - start}ms): ${error}`,
+			);
+			throw error;
+		}
+	};
+};
+
+/**
+ * Options for the {@link retry} middleware.
+ */
+export type RetryOptions = {
+	/** Total number of attempts, including the first one (defaults to 3) */
+	attempts?: number;
+	/**
+	 * Delay before the next attempt in milliseconds, as a constant or as a
+	 * function of the attempt that just failed (starting at 1). Defaults to
+	 * 100ms, doubling after every attempt.
+	 */
+	delay?: number | ((attempt: number) => number);
+	/** Whether a response should be retried (defaults to 408, 429 and 5xx) */
+	retryOn?: (response: Response) => boolean;
+	/**
+	 * Methods that are always retried (defaults to `GET`, `HEAD`, `OPTIONS`,
+	 * `PUT` and `DELETE`, which are idempotent).
+	 */
+	methods?: string[];
+	/**
+	 * Requests with other methods, such as `POST` and `PATCH`, are only retried
+	 * when they carry this header (defaults to `Idempotency-Key`).
+	 */
+	idempotencyKeyHeader?: string;
+	/**
+	 * Upper bound in milliseconds for waits requested by `Retry-After` headers
+	 * (defaults to 30 seconds).
+	 */
+	maxRetryAfter?: number;
+	/** Called before waiting for the next attempt */
+	onRetry?: (failure: RetryFailure) => void;
+	/**
+	 * Called once the attempts run out, with the last attempt's response or
+	 * error, before it is returned or thrown as a {@link RetryError}.
+	 */
+	onExhausted?: (failure: RetryFailure) => void;
+};
+
+/**
+ * A failed attempt of the {@link retry} middleware.
+ */
+export type RetryFailure = {
+	/** The attempt that failed, starting at 1 */
+	attempt: number;
+	/**
+	 * The response of the attempt, with its body already cancelled when it is
+	 * retried
+	 */
+	response?: Response;
+	/** The error thrown by the attempt */
+	error?: unknown;
+};
+
+/**
+ * Thrown by the {@link retry} middleware when every attempt threw.
+ */
+export class RetryError extends Error {
+	/** The number of attempts made */
+	readonly attempts: number;
+
+	constructor(attempts: number, { cause }: { cause?: unknown }) {
+		super(`Request failed after ${attempts} attempts: ${cause}`, { cause });
+		this.name = "RetryError";
+		this.attempts = attempts;
+	}
+}
+
+const defaultRetryMethods = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+// Rejects with the signal's reason as soon as it aborts
+const sleep = (ms: number, signal: AbortSignal | null | undefined) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+// `Retry-After` is either a number of seconds or an HTTP date
+const parseRetryAfter = (response: Response): number | undefined => {
+	const value = response.headers.get("Retry-After");
+	if (!value) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Retries requests that throw or return a retryable response.
+ *
+ * Only idempotent methods are retried, unless the request has an idempotency
+ * key header. Streamed bodies can only be sent once, so requests with a
+ * `ReadableStream` body are never retried. Waits requested by a `Retry-After` response header take
+ * precedence over `delay`. Once the attempts run out, the last response is
+ * returned, or a {@link RetryError} is thrown when the last attempt threw.
+ * Retrying stops as soon as the request's signal aborts.
+ *
+ * @example
+ * ```typescript
+ * honoDoFetcher(stub, { middleware: [retry({ attempts: 5, delay: 200 })] });
+ * ```
+ */
+export const retry = ({
+	attempts = 3,
+	delay = (attempt) => 100 * 2 ** (attempt - 1),
+	retryOn = (response) =>
+		response.status === 408 ||
+		response.status === 429 ||
+		response.status >= 500,
+	methods = defaultRetryMethods,
+	idempotencyKeyHeader = "Idempotency-Key",
+	maxRetryAfter = 30_000,
+	onRetry,
+	onExhausted,
+}: RetryOptions = {}): FetcherMiddleware => {
+	const retryMethods = methods.map((method) => method.toUpperCase());
+
+	return async (request, next) => {
+		const method = (request.init.method ?? "GET").toUpperCase();
+		const isRetryable =
+			!(request.init.body instanceof ReadableStream) &&
+			(retryMethods.includes(method) ||
+				new Headers(
+					request.init.headers as unknown as ConstructorParameters<
+						typeof Headers
+					>[0],
+				).has(idempotencyKeyHeader));
+
+		if (!isRetryable) {
+			return next(request);
+		}
+
+		const signal = request.init.signal;
+
+		for (let attempt = 1; ; attempt++) {
+			let wait = typeof delay === "number" ? delay : delay(attempt);
+			let failure: RetryFailure;
+
+			try {
+				failure = { attempt, response: await next(request) };
+			} catch (error) {
+				if (signal?.aborted) {
+					throw error;
+				}
+				failure = { attempt, error };
+			}
+
+			const { response } = failure;
+			if (response && !retryOn(response)) {
+				return response;
+			}
+			if (attempt >= attempts) {
+				onExhausted?.(failure);
+				if (response) {
+					return response;
+				}
+				throw new RetryError(attempt, { cause: failure.error });
+			}
+
+			if (response) {
+				const retryAfter = parseRetryAfter(response);
+				if (retryAfter !== undefined) {
+					wait = Math.min(retryAfter, maxRetryAfter);
+				}
+
+				// Unread bodies hold on to their connection
+				await response.body?.cancel().catch(() => {});
+				signal?.throwIfAborted();
+			}
+
+			onRetry?.(failure);
+			await sleep(wait, signal);
+		}
+	};
+};
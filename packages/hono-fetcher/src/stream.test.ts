@@ -0,0 +1,239 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { Hono } from "hono";
+import { stream, streamSSE } from "hono/streaming";
+import { honoFetcher } from "./honoFetcher";
+import { type ServerSentEvent, StreamError } from "./stream";
+
+type Tick = { count: number };
+
+describe("stream", () => {
+	const lastEventIds: (string | null)[] = [];
+	let infiniteAborted = false;
+
+	const app = new Hono()
+		.get("/ticks", (c) => {
+			return streamSSE(c, async (sse) => {
+				for (let count = 1; count <= 2; count++) {
+					await sse.writeSSE({
+						event: "tick",
+						data: JSON.stringify({ count }),
+						id: String(count),
+					});
+				}
+				await sse.writeSSE({ data: "done" });
+			});
+		})
+		.get("/lines", (c) => {
+			c.header("Content-Type", "application/x-ndjson");
+			return stream(c, async (s) => {
+				await s.write('{"count":1}\n{"cou');
+				await s.write('nt":2}\n\n');
+				await s.write('{"count":3}');
+			});
+		})
+		.post("/lines", async (c) => {
+			const { from } = await c.req.json();
+			return stream(c, async (s) => {
+				await s.write(`${JSON.stringify({ count: from })}\n`);
+			});
+		})
+		.get("/resumable", (c) => {
+			const lastEventId = c.req.header("Last-Event-ID") ?? null;
+			lastEventIds.push(lastEventId);
+
+			const from = Number(lastEventId ?? 0);
+			if (from >= 4) {
+				return c.body(null, 204);
+			}
+
+			return streamSSE(c, async (sse) => {
+				await sse.write("retry: 0\n\n");
+				for (let id = from + 1; id <= from + 2; id++) {
+					await sse.writeSSE({ data: `event ${id}`, id: String(id) });
+				}
+			});
+		})
+		.get("/infinite", (c) => {
+			infiniteAborted = false;
+			return streamSSE(c, async (sse) => {
+				sse.onAbort(() => {
+					infiniteAborted = true;
+				});
+				for (let id = 1; !sse.aborted; id++) {
+					await sse.writeSSE({ data: String(id) });
+					await sse.sleep(5);
+				}
+			});
+		})
+		.get("/missing", (c) => c.json({ message: "Not found" }, 404));
+
+	const api = honoFetcher<typeof app>(app.request);
+
+	it("should read server-sent events with names and ids", async () => {
+		const events = [];
+		for await (const event of api.stream.get({
+			url: "/ticks",
+			format: "sse",
+		})) {
+			expectTypeOf(event).toEqualTypeOf<ServerSentEvent<string>>();
+			events.push(event);
+		}
+
+		expect(events).toEqual([
+			{ event: "tick", data: '{"count":1}', id: "1" },
+			{ event: "tick", data: '{"count":2}', id: "2" },
+			{ event: "message", data: "done", id: "2" },
+		]);
+	});
+
+	it("should type items with the parse function", async () => {
+		const counts: number[] = [];
+		for await (const event of api.stream.get({
+			url: "/ticks",
+			format: "sse",
+			parse: (data): Tick | undefined =>
+				data === "done" ? undefined : JSON.parse(data),
+		})) {
+			expectTypeOf(event).toEqualTypeOf<ServerSentEvent<Tick | undefined>>();
+			if (event.data) {
+				counts.push(event.data.count);
+			}
+		}
+
+		expect(counts).toEqual([1, 2]);
+	});
+
+	it("should read NDJSON lines across chunks", async () => {
+		const lines = [];
+		for await (const line of api.stream.get({
+			url: "/lines",
+			format: "ndjson",
+			parse: (data) => JSON.parse(data) as Tick,
+		})) {
+			expectTypeOf(line).toEqualTypeOf<Tick>();
+			lines.push(line);
+		}
+
+		expect(lines).toEqual([{ count: 1 }, { count: 2 }, { count: 3 }]);
+	});
+
+	it("should send typed bodies with stream requests", async () => {
+		const lines = [];
+		for await (const line of api.stream.post({
+			url: "/lines",
+			body: { from: 7 },
+			format: "ndjson",
+		})) {
+			expectTypeOf(line).toEqualTypeOf<unknown>();
+			lines.push(line);
+		}
+
+		expect(lines).toEqual([{ count: 7 }]);
+	});
+
+	it("should reconnect with the last event id until the server sends 204", async () => {
+		lastEventIds.length = 0;
+		const events = [];
+		for await (const event of api.stream.get({
+			url: "/resumable",
+			format: "sse",
+			reconnect: true,
+		})) {
+			events.push(event.data);
+		}
+
+		expect(events).toEqual(["event 1", "event 2", "event 3", "event 4"]);
+		expect(lastEventIds).toEqual([null, "2", "4"]);
+	});
+
+	it("should not reconnect unless asked to", async () => {
+		lastEventIds.length = 0;
+		const events = [];
+		for await (const event of api.stream.get({
+			url: "/resumable",
+			format: "sse",
+		})) {
+			events.push(event.data);
+		}
+
+		expect(events).toEqual(["event 1", "event 2"]);
+		expect(lastEventIds).toEqual([null]);
+	});
+
+	it("should cancel the stream when the consumer stops iterating", async () => {
+		const events = [];
+		for await (const event of api.stream.get({
+			url: "/infinite",
+			format: "sse",
+		})) {
+			events.push(event.data);
+			if (events.length === 2) {
+				break;
+			}
+		}
+
+		expect(events).toEqual(["1", "2"]);
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(infiniteAborted).toBe(true);
+	});
+
+	it("should stop when the caller's signal aborts", async () => {
+		const controller = new AbortController();
+		const events: string[] = [];
+		const error = await (async () => {
+			for await (const event of api.stream.get({
+				url: "/infinite",
+				format: "sse",
+				reconnect: true,
+				init: { signal: controller.signal },
+			})) {
+				events.push(event.data);
+				if (events.length === 1) {
+					controller.abort();
+				}
+			}
+		})().catch((e) => e);
+
+		expect(events).toEqual(["1"]);
+		expect(error.name).toBe("AbortError");
+	});
+
+	it("should follow the caller's signal without AbortSignal.any", async () => {
+		const any = AbortSignal.any;
+		Reflect.deleteProperty(AbortSignal, "any");
+		try {
+			const controller = new AbortController();
+			const events: string[] = [];
+			const error = await (async () => {
+				for await (const event of api.stream.get({
+					url: "/infinite",
+					format: "sse",
+					init: { signal: controller.signal },
+				})) {
+					events.push(event.data);
+					controller.abort();
+				}
+			})().catch((e) => e);
+
+			expect(events).toEqual(["1"]);
+			expect(error.name).toBe("AbortError");
+		} finally {
+			AbortSignal.any = any;
+		}
+	});
+
+	it("should throw a StreamError for non-2xx responses", async () => {
+		const error = await (async () => {
+			for await (const _ of api.stream.get({
+				url: "/missing",
+				format: "sse",
+				reconnect: true,
+			})) {
+				// No events
+			}
+		})().catch((e) => e);
+
+		expect(error).toBeInstanceOf(StreamError);
+		expect(error.status).toBe(404);
+	});
+});
@@ -0,0 +1,306 @@
+/**
+ * How a streamed response body is split into items: server-sent events
+ * (`text/event-stream`, as written by Hono's `streamSSE`) or newline-delimited
+ * JSON.
+ */
+export type StreamFormat = "sse" | "ndjson";
+
+/**
+ * A server-sent event with its data parsed by the stream's `parse` function.
+ */
+export type ServerSentEvent<TData = string> = {
+	/** The event name, `message` when the server didn't set one */
+	event: string;
+	data: TData;
+	/** The last event ID sent by the server, if any */
+	id?: string;
+};
+
+/**
+ * Options for reconnecting server-sent event streams.
+ */
+export type ReconnectOptions = {
+	/**
+	 * Reconnections in a row that may end without receiving an event before
+	 * giving up (defaults to 3)
+	 */
+	attempts?: number;
+	/**
+	 * Delay before reconnecting in milliseconds, until the server sends a
+	 * `retry` field (defaults to 1000)
+	 */
+	delay?: number;
+};
+
+export type StreamOptions<TFormat extends StreamFormat, TData> = {
+	format: TFormat;
+	/**
+	 * Parses the data of an event or a line. Defaults to the data string for
+	 * server-sent events and `JSON.parse` for NDJSON.
+	 */
+	parse?: (data: string) => TData;
+	/**
+	 * Reconnects server-sent event streams that close or fail, sending the
+	 * last event ID in a `Last-Event-ID` header. A `204` response stops
+	 * reconnecting.
+	 */
+	reconnect?: boolean | ReconnectOptions;
+};
+
+/**
+ * An item of a stream: a server-sent event or a parsed NDJSON line.
+ */
+export type StreamItem<
+	TFormat extends StreamFormat,
+	TData,
+> = TFormat extends "sse" ? ServerSentEvent<TData> : TData;
+
+/**
+ * Thrown when a stream request returns a non-2xx response or no body.
+ */
+export class StreamError extends Error {
+	readonly status: number;
+	readonly response: Response;
+
+	constructor(response: Response) {
+		super(`Stream request failed with status ${response.status}`);
+		this.name = "StreamError";
+		this.status = response.status;
+		this.response = response;
+	}
+}
+
+/**
+ * Opens a connection, sending the last event ID received so far when
+ * reconnecting.
+ */
+export type StreamConnect = (
+	lastEventId: string | undefined,
+	signal: AbortSignal,
+) => Promise<Response>;
+
+// Lone `\r` line endings are not supported
+async function* readLines(
+	body: ReadableStream<Uint8Array>,
+	signal: AbortSignal,
+): AsyncGenerator<string> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	// Not every body follows the request's signal, `app.request` bodies don't
+	const onAbort = () => {
+		reader.cancel(signal.reason).catch(() => {});
+	};
+	signal.addEventListener("abort", onAbort, { once: true });
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			signal.throwIfAborted();
+			if (done) {
+				break;
+			}
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() ?? "";
+			yield* lines;
+		}
+
+		buffer += decoder.decode();
+		if (buffer) {
+			yield buffer;
+		}
+	} finally {
+		signal.removeEventListener("abort", onAbort);
+		await reader.cancel().catch(() => {});
+	}
+}
+
+// Follows the event stream interpretation of the HTML spec, the `id` field
+// persists across events
+async function* parseServerSentEvents(
+	lines: AsyncIterable<string>,
+	state: { lastEventId?: string; retry?: number },
+): AsyncGenerator<ServerSentEvent> {
+	let event = "";
+	let data: string[] = [];
+
+	for await (const line of lines) {
+		if (line === "") {
+			if (data.length > 0) {
+				yield {
+					event: event || "message",
+					data: data.join("\n"),
+					...(state.lastEventId !== undefined ? { id: state.lastEventId } : {}),
+				};
+			}
+			event = "";
+			data = [];
+			continue;
+		}
+
+		if (line.startsWith(":")) {
+			continue;
+		}
+
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) {
+			value = value.slice(1);
+		}
+
+		switch (field) {
+			case "event":
+				event = value;
+				break;
+			case "data":
+				data.push(value);
+				break;
+			case "id":
+				if (!value.includes("\0")) {
+					state.lastEventId = value;
+				}
+				break;
+			case "retry":
+				if (/^\d+$/.test(value)) {
+					state.retry = Number(value);
+				}
+				break;
+		}
+	}
+}
+
+async function* parseNdjson(
+	lines: AsyncIterable<string>,
+): AsyncGenerator<string> {
+	for await (const line of lines) {
+		if (line.trim()) {
+			yield line;
+		}
+	}
+}
+
+const wait = (ms: number, signal: AbortSignal | undefined) =>
+	new Promise<void>((resolve) => {
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				resolve();
+			},
+			{ once: true },
+		);
+	});
+
+/**
+ * Reads the items of a streamed response, reconnecting server-sent event
+ * streams when asked to.
+ *
+ * The request is only made once iteration starts, and stopping the iteration
+ * (`break`, `return` or a thrown error in a `for await` loop) cancels the
+ * response body and aborts the request.
+ */
+export async function* readStream<TFormat extends StreamFormat, TData>(
+	connect: StreamConnect,
+	{ format, parse, reconnect }: StreamOptions<TFormat, TData>,
+	signal?: AbortSignal,
+): AsyncGenerator<StreamItem<TFormat, TData>, void, undefined> {
+	const reconnectOptions =
+		format === "sse" && reconnect
+			? reconnect === true
+				? {}
+				: reconnect
+			: undefined;
+	const { attempts = 3, delay = 1000 } = reconnectOptions ?? {};
+	const parseData =
+		parse ??
+		((data: string) => (format === "sse" ? data : JSON.parse(data)) as TData);
+	const state: { lastEventId?: string; retry?: number } = {};
+	let failures = 0;
+
+	while (true) {
+		// Follows the caller's signal without `AbortSignal.any`, which Node 18
+		// doesn't have
+		const controller = new AbortController();
+		const onAbort = () => controller.abort(signal?.reason);
+		if (signal?.aborted) {
+			onAbort();
+		} else {
+			signal?.addEventListener("abort", onAbort, { once: true });
+		}
+		const connectionSignal = controller.signal;
+		let items: AsyncGenerator<ServerSentEvent | string> | undefined;
+		let received = false;
+
+		try {
+			while (true) {
+				let next: IteratorResult<ServerSentEvent | string>;
+				try {
+					if (!items) {
+						const response = await connect(state.lastEventId, connectionSignal);
+						if (response.status === 204) {
+							// The server asks not to reconnect
+							return;
+						}
+						if (!response.ok || !response.body) {
+							throw new StreamError(response);
+						}
+
+						const lines = readLines(response.body, connectionSignal);
+						items =
+							format === "sse"
+								? parseServerSentEvents(lines, state)
+								: parseNdjson(lines);
+					}
+
+					next = await items.next();
+				} catch (error) {
+					if (
+						!reconnectOptions ||
+						error instanceof StreamError ||
+						signal?.aborted ||
+						failures >= attempts
+					) {
+						throw error;
+					}
+					break;
+				}
+
+				if (next.done) {
+					break;
+				}
+
+				received = true;
+				failures = 0;
+				const item = next.value;
+				yield (
+					typeof item === "string"
+						? parseData(item)
+						: { ...item, data: parseData(item.data) }
+				) as StreamItem<TFormat, TData>;
+			}
+		} finally {
+			signal?.removeEventListener("abort", onAbort);
+			await items?.return(undefined);
+			controller.abort();
+		}
+
+		if (!reconnectOptions) {
+			return;
+		}
+
+		if (!received) {
+			failures++;
+		}
+		if (failures > attempts) {
+			return;
+		}
+
+		await wait(state.retry ?? delay, signal);
+		signal?.throwIfAborted();
+	}
+}
@@ -1,9 +1,29 @@
-import { describe, expect, it } from "bun:test";
+import { describe, expect, expectTypeOf, it } from "bun:test";
 import {
+	type AssumeError,
 	type AssumeSuccess,
+	andThen,
+	type ErrorOf,
 	fail,
+	flatMap,
+	type InferMaybeError,
+	isError,
+	isSuccess,
 	type MaybeError,
+	type MergeMaybeErrors,
+	map,
+	mapError,
+	match,
+	orElse,
+	type ResultOf,
 	success,
+	tap,
+	tapError,
+	type UnionErrors,
+	UnwrapError,
+	unwrap,
+	unwrapOr,
+	unwrapOrElse,
 } from "./MaybeError";
 
 describe("MaybeError", () => {
@@ -366,6 +386,62 @@ describe("MaybeError", () => {
 				expect(user.name).toBe("John");
 			}
 		});
+
+		type User = { id: string; name: string };
+		type ApiError = { code: number; message: string };
+
+		async function loadUser(_id: string): Promise<MaybeError<User, ApiError>> {
+			return success({ id: "1", name: "John" });
+		}
+
+		function loadCount(): MaybeError<number, "TIMEOUT"> {
+			return success(1);
+		}
+
+		it("should extract the error type with AssumeError", () => {
+			expectTypeOf<
+				AssumeError<MaybeError<User, ApiError>>
+			>().toEqualTypeOf<ApiError>();
+			expectTypeOf<
+				AssumeError<MaybeError<User, ApiError> | undefined>
+			>().toEqualTypeOf<ApiError>();
+			expectTypeOf<AssumeError<MaybeError<User>>>().toEqualTypeOf<string>();
+		});
+
+		it("should infer types from functions returning MaybeError", () => {
+			expectTypeOf<InferMaybeError<typeof loadUser>>().toEqualTypeOf<
+				MaybeError<User, ApiError>
+			>();
+			expectTypeOf<ResultOf<typeof loadUser>>().toEqualTypeOf<User>();
+			expectTypeOf<ErrorOf<typeof loadUser>>().toEqualTypeOf<ApiError>();
+			expectTypeOf<ResultOf<typeof loadCount>>().toEqualTypeOf<number>();
+			expectTypeOf<ErrorOf<typeof loadCount>>().toEqualTypeOf<"TIMEOUT">();
+		});
+
+		it("should infer void results from functions", () => {
+			const save = async (): Promise<MaybeError<undefined, "READONLY">> =>
+				success();
+
+			expectTypeOf<ResultOf<typeof save>>().toEqualTypeOf<undefined>();
+			expectTypeOf<ErrorOf<typeof save>>().toEqualTypeOf<"READONLY">();
+		});
+
+		it("should union errors of functions and MaybeError types", () => {
+			expectTypeOf<
+				UnionErrors<
+					[typeof loadUser, typeof loadCount, MaybeError<void, "OFFLINE">]
+				>
+			>().toEqualTypeOf<ApiError | "TIMEOUT" | "OFFLINE">();
+		});
+
+		it("should merge MaybeError types", () => {
+			expectTypeOf<
+				MergeMaybeErrors<
+					MaybeError<User, ApiError>,
+					MaybeError<number, "TIMEOUT">
+				>
+			>().toEqualTypeOf<MaybeError<User | number, ApiError | "TIMEOUT">>();
+		});
 	});
 
 	describe("Edge cases", () => {
@@ -403,4 +479,208 @@ describe("MaybeError", () => {
 			}
 		});
 	});
+
+	describe("Combinators", () => {
+		function parseNumber(str: string): MaybeError<number, string> {
+			const num = Number(str);
+			if (Number.isNaN(num)) return fail(`"${str}" is not a valid number`);
+			return success(num);
+		}
+
+		function sqrt(num: number): MaybeError<number, { code: "NEGATIVE" }> {
+			if (num < 0) return fail({ code: "NEGATIVE" });
+			return success(Math.sqrt(num));
+		}
+
+		describe("isSuccess() / isError()", () => {
+			it("should narrow both branches", () => {
+				const results = [parseNumber("1"), parseNumber("x"), parseNumber("3")];
+
+				const values = results.filter(isSuccess).map((r) => r.result);
+				const errors = results.filter(isError).map((r) => r.error);
+
+				expectTypeOf(values).toEqualTypeOf<number[]>();
+				expectTypeOf(errors).toEqualTypeOf<string[]>();
+				expect(values).toEqual([1, 3]);
+				expect(errors).toEqual(['"x" is not a valid number']);
+			});
+		});
+
+		describe("map()", () => {
+			it("should transform the success value", () => {
+				const result = map(parseNumber("21"), (n) => n * 2);
+
+				expectTypeOf(result).toEqualTypeOf<MaybeError<number, string>>();
+				expect(result).toEqual({ success: true, result: 42 });
+			});
+
+			it("should pass errors through untouched", () => {
+				const original = parseNumber("abc");
+				const result = map(original, (n) => n * 2);
+
+				expect(result).toBe(original as typeof result);
+			});
+
+			it("should accept a void success", () => {
+				const result = map(success(), (value) => {
+					expectTypeOf(value).toEqualTypeOf<undefined>();
+					return "done";
+				});
+
+				expect(result).toEqual({ success: true, result: "done" });
+			});
+
+			it("should omit result when mapping to undefined", () => {
+				const result = map(success(1), () => undefined);
+
+				expectTypeOf(result).toEqualTypeOf<MaybeError<undefined, never>>();
+				expect(result).toEqual({ success: true });
+				expect("result" in result).toBe(false);
+			});
+		});
+
+		describe("mapError()", () => {
+			it("should transform the error value", () => {
+				const result = mapError(parseNumber("abc"), (message) => ({
+					status: 400,
+					message,
+				}));
+
+				expectTypeOf(result).toEqualTypeOf<
+					MaybeError<number, { status: number; message: string }>
+				>();
+				expect(result).toEqual({
+					success: false,
+					error: { status: 400, message: '"abc" is not a valid number' },
+				});
+			});
+
+			it("should pass successes through untouched", () => {
+				const original = parseNumber("5");
+				const result = mapError(original, () => "never");
+
+				expect(result).toBe(original);
+			});
+		});
+
+		describe("andThen() / flatMap()", () => {
+			it("should chain successful operations", () => {
+				const result = andThen(parseNumber("16"), sqrt);
+
+				expectTypeOf(result).toEqualTypeOf<
+					MaybeError<number, string | { code: "NEGATIVE" }>
+				>();
+				expect(result).toEqual({ success: true, result: 4 });
+			});
+
+			it("should short-circuit on the first error", () => {
+				let called = false;
+				const result = andThen(parseNumber("abc"), (n) => {
+					called = true;
+					return sqrt(n);
+				});
+
+				expect(called).toBe(false);
+				expect(result).toEqual({
+					success: false,
+					error: '"abc" is not a valid number',
+				});
+			});
+
+			it("should return the error from the chained operation", () => {
+				const result = flatMap(parseNumber("-4"), sqrt);
+
+				expect(result).toEqual({ success: false, error: { code: "NEGATIVE" } });
+			});
+		});
+
+		describe("orElse()", () => {
+			it("should recover from an error", () => {
+				const result = orElse(parseNumber("abc"), () => success("fallback"));
+
+				expectTypeOf(result).toEqualTypeOf<
+					MaybeError<number | string, never>
+				>();
+				expect(result).toEqual({ success: true, result: "fallback" });
+			});
+
+			it("should keep the original success", () => {
+				const result = orElse(parseNumber("1"), () => fail(500));
+
+				expect(result).toEqual({ success: true, result: 1 });
+			});
+		});
+
+		describe("match()", () => {
+			it("should call onSuccess for successes", () => {
+				const message = match(parseNumber("7"), {
+					onSuccess: (value) => `value: ${value}`,
+					onError: (error) => `error: ${error}`,
+				});
+
+				expect(message).toBe("value: 7");
+			});
+
+			it("should call onError for errors", () => {
+				const message = match(sqrt(-1), {
+					onSuccess: (value) => value,
+					onError: (error) => error.code,
+				});
+
+				expectTypeOf(message).toEqualTypeOf<number | "NEGATIVE">();
+				expect(message).toBe("NEGATIVE");
+			});
+		});
+
+		describe("unwrap()", () => {
+			it("should return the success value", () => {
+				expect(unwrap(parseNumber("3"))).toBe(3);
+			});
+
+			it("should throw an UnwrapError carrying the error", () => {
+				const error = { code: 404 };
+
+				try {
+					unwrap(fail(error));
+					expect.unreachable();
+				} catch (thrown) {
+					expect(thrown).toBeInstanceOf(UnwrapError);
+					expect((thrown as UnwrapError).error).toBe(error);
+				}
+			});
+		});
+
+		describe("unwrapOr() / unwrapOrElse()", () => {
+			it("should return the success value", () => {
+				expect(unwrapOr(parseNumber("3"), 0)).toBe(3);
+				expect(unwrapOrElse(parseNumber("3"), () => 0)).toBe(3);
+			});
+
+			it("should fall back on error", () => {
+				const fallback = unwrapOr(parseNumber("x"), null);
+
+				expectTypeOf(fallback).toEqualTypeOf<number | null>();
+				expect(fallback).toBe(null);
+				expect(unwrapOrElse(parseNumber("x"), (error) => error.length)).toBe(
+					25,
+				);
+			});
+		});
+
+		describe("tap() / tapError()", () => {
+			it("should run side effects on the matching branch only", () => {
+				const seen: string[] = [];
+
+				const ok = parseNumber("1");
+				const bad = parseNumber("x");
+
+				expect(tap(ok, (n) => seen.push(`ok:${n}`))).toBe(ok);
+				expect(tap(bad, (n) => seen.push(`ok:${n}`))).toBe(bad);
+				expect(tapError(ok, (e) => seen.push(`err:${e}`))).toBe(ok);
+				expect(tapError(bad, (e) => seen.push(`err:${e}`))).toBe(bad);
+
+				expect(seen).toEqual(["ok:1", 'err:"x" is not a valid number']);
+			});
+		});
+	});
 });
@@ -162,3 +162,424 @@ export const fail = <TError = string>(error: TError): DefiniteError<TError> => {
 		error,
 	};
 };
+
+/**
+ * Structural supertype of every MaybeError value, including the void-success
+ * case where `result` is optional.
+ *
+ * Used as a generic constraint by the combinators so that both `success()` and
+ * `success(value)` results are accepted without losing their specific types.
+ */
+export type AnyMaybeError =
+	| { success: true; result?: unknown }
+	| { success: false; error: unknown };
+
+/**
+ * Extracts the success value type from any MaybeError-shaped type.
+ *
+ * Distributes over unions, so `SuccessValue<MaybeError<User, ApiError>>` is
+ * `User` and `SuccessValue<DefiniteSuccess>` is `undefined`.
+ *
+ * @template R - A MaybeError type
+ */
+export type SuccessValue<R> = R extends { success: true }
+	? R extends { result?: infer T }
+		? T
+		: undefined
+	: never;
+
+/**
+ * Extracts the error value type from any MaybeError-shaped type.
+ *
+ * @template R - A MaybeError type
+ * @example
+ * ```typescript
+ * type E = ErrorValue<MaybeError<User, ApiError>>; // ApiError
+ * ```
+ */
+export type ErrorValue<R> = R extends { success: false; error: infer E }
+	? E
+	: never;
+
+/**
+ * Utility type to extract the error type from a MaybeError type, the
+ * counterpart of {@link AssumeSuccess}.
+ *
+ * @template T - A MaybeError type
+ * @example
+ * ```typescript
+ * type UserResult = MaybeError<User, ApiError>;
+ * type UserError = AssumeError<UserResult>; // ApiError
+ * ```
+ */
+export type AssumeError<T extends AnyMaybeError | undefined> = ErrorValue<
+	Exclude<T, undefined>
+>;
+
+/**
+ * The MaybeError type returned by a function, unwrapping promises and other
+ * thenables such as `MaybeErrorAsync`.
+ *
+ * @template F - A function returning a MaybeError or a promise of one
+ * @example
+ * ```typescript
+ * async function loadUser(id: string): Promise<MaybeError<User, ApiError>> { ... }
+ * type Loaded = InferMaybeError<typeof loadUser>; // MaybeError<User, ApiError>
+ * ```
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Any function signature must be accepted
+export type InferMaybeError<F extends (...args: any[]) => unknown> = Extract<
+	Awaited<ReturnType<F>>,
+	AnyMaybeError
+>;
+
+/**
+ * The success value type of a function returning a MaybeError.
+ *
+ * @template F - A function returning a MaybeError or a promise of one
+ * @example
+ * ```typescript
+ * type User = ResultOf<typeof loadUser>; // User
+ * ```
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Any function signature must be accepted
+export type ResultOf<F extends (...args: any[]) => unknown> = SuccessValue<
+	InferMaybeError<F>
+>;
+
+/**
+ * The error type of a function returning a MaybeError.
+ *
+ * @template F - A function returning a MaybeError or a promise of one
+ * @example
+ * ```typescript
+ * type LoadError = ErrorOf<typeof loadUser>; // ApiError
+ * ```
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Any function signature must be accepted
+export type ErrorOf<F extends (...args: any[]) => unknown> = ErrorValue<
+	InferMaybeError<F>
+>;
+
+/**
+ * The union of the error types of several MaybeError types, or of functions
+ * returning them.
+ *
+ * @template Ts - A tuple of MaybeError types and/or function types
+ * @example
+ * ```typescript
+ * type LoaderError = UnionErrors<[typeof loadUser, typeof loadTeam, MaybeError<void, "TIMEOUT">]>;
+ * // ApiError | TeamError | "TIMEOUT"
+ * ```
+ */
+export type UnionErrors<Ts extends readonly unknown[]> = {
+	// biome-ignore lint/suspicious/noExplicitAny: Any function signature must be accepted
+	[K in keyof Ts]: Ts[K] extends (...args: any[]) => unknown
+		? ErrorOf<Ts[K]>
+		: ErrorValue<Ts[K]>;
+}[number];
+
+/**
+ * Merges two MaybeError types into one whose success and error types are the
+ * unions of both.
+ *
+ * @template A - A MaybeError type
+ * @template B - A MaybeError type
+ * @example
+ * ```typescript
+ * type Either = MergeMaybeErrors<MaybeError<User, ApiError>, MaybeError<Guest, "EXPIRED">>;
+ * // MaybeError<User | Guest, ApiError | "EXPIRED">
+ * ```
+ */
+export type MergeMaybeErrors<
+	A extends AnyMaybeError,
+	B extends AnyMaybeError,
+> = MaybeError<
+	SuccessValue<A> | SuccessValue<B>,
+	ErrorValue<A> | ErrorValue<B>
+>;
+
+/**
+ * Handlers passed to {@link match}, one per branch.
+ */
+export type MatchHandlers<T, TError, RSuccess, RError> = {
+	onSuccess: (value: T) => RSuccess;
+	onError: (error: TError) => RError;
+};
+
+/**
+ * Thrown by {@link unwrap} when it is called on a failed result.
+ *
+ * The original error value is preserved on the `error` property.
+ */
+export class UnwrapError<TError = unknown> extends Error {
+	constructor(public readonly error: TError) {
+		super(
+			error instanceof Error
+				? `Called unwrap on a failed result: ${error.message}`
+				: `Called unwrap on a failed result: ${String(error)}`,
+		);
+		this.name = "UnwrapError";
+	}
+}
+
+/**
+ * Builds a success from a value that may be undefined, mirroring `success()`
+ * by omitting the `result` key for void results.
+ *
+ * @internal Shared by the modules of this package so that every void success
+ * has the same shape
+ */
+export const toSuccess = <T>(value: T): DefiniteSuccess<T> => {
+	if (value === undefined) {
+		return { success: true } as unknown as DefiniteSuccess<T>;
+	}
+
+	return { success: true, result: value } as unknown as DefiniteSuccess<T>;
+};
+
+/**
+ * Type guard that narrows a MaybeError to its success branch.
+ *
+ * @example
+ * ```typescript
+ * const results = [divide(1, 2), divide(1, 0)];
+ * const values = results.filter(isSuccess).map((r) => r.result);
+ * ```
+ */
+export const isSuccess = <R extends AnyMaybeError>(
+	result: R,
+): result is Extract<R, { success: true }> => {
+	return result.success;
+};
+
+/**
+ * Type guard that narrows a MaybeError to its error branch.
+ */
+export const isError = <R extends AnyMaybeError>(
+	result: R,
+): result is Extract<R, { success: false }> => {
+	return !result.success;
+};
+
+/**
+ * Transforms the success value, leaving errors untouched.
+ *
+ * @param result - The result to transform
+ * @param fn - Mapper applied to the success value
+ * @returns A new result with the mapped value, or the original error
+ * @example
+ * ```typescript
+ * const doubled = map(divide(10, 2), (n) => n * 2); // success(10)
+ * ```
+ */
+export const map = <R extends AnyMaybeError, U>(
+	result: R,
+	fn: (value: SuccessValue<R>) => U,
+): MaybeError<U, ErrorValue<R>> => {
+	if (!result.success) {
+		return result as DefiniteError<ErrorValue<R>>;
+	}
+
+	return toSuccess(fn(result.result as SuccessValue<R>));
+};
+
+/**
+ * Transforms the error value, leaving successes untouched.
+ *
+ * @param result - The result to transform
+ * @param fn - Mapper applied to the error value
+ * @returns The original success, or a new result with the mapped error
+ * @example
+ * ```typescript
+ * const withCode = mapError(divide(1, 0), (message) => ({ code: 400, message }));
+ * ```
+ */
+export const mapError = <R extends AnyMaybeError, F>(
+	result: R,
+	fn: (error: ErrorValue<R>) => F,
+): MaybeError<SuccessValue<R>, F> => {
+	if (result.success) {
+		return result as unknown as DefiniteSuccess<SuccessValue<R>>;
+	}
+
+	return fail(fn(result.error as ErrorValue<R>));
+};
+
+/**
+ * Chains another fallible operation onto a success value.
+ *
+ * The error type of the returned result is the union of both error types.
+ *
+ * @param result - The result to chain from
+ * @param fn - Operation to run on the success value
+ * @returns The result of `fn`, or the original error
+ * @example
+ * ```typescript
+ * const root = andThen(parseNumber("16"), sqrt); // success(4)
+ * ```
+ */
+export const andThen = <R extends AnyMaybeError, R2 extends AnyMaybeError>(
+	result: R,
+	fn: (value: SuccessValue<R>) => R2,
+): MaybeError<SuccessValue<R2>, ErrorValue<R> | ErrorValue<R2>> => {
+	if (!result.success) {
+		return result as DefiniteError<ErrorValue<R>>;
+	}
+
+	return fn(result.result as SuccessValue<R>) as MaybeError<
+		SuccessValue<R2>,
+		ErrorValue<R2>
+	>;
+};
+
+/**
+ * Alias of {@link andThen}.
+ */
+export const flatMap = andThen;
+
+/**
+ * Recovers from an error by running another fallible operation.
+ *
+ * @param result - The result to recover
+ * @param fn - Operation to run on the error value
+ * @returns The original success, or the result of `fn`
+ * @example
+ * ```typescript
+ * const user = orElse(fetchFromCache(id), () => fetchFromDb(id));
+ * ```
+ */
+export const orElse = <R extends AnyMaybeError, R2 extends AnyMaybeError>(
+	result: R,
+	fn: (error: ErrorValue<R>) => R2,
+): MaybeError<SuccessValue<R> | SuccessValue<R2>, ErrorValue<R2>> => {
+	if (result.success) {
+		return result as unknown as DefiniteSuccess<SuccessValue<R>>;
+	}
+
+	return fn(result.error as ErrorValue<R>) as MaybeError<
+		SuccessValue<R2>,
+		ErrorValue<R2>
+	>;
+};
+
+/**
+ * Folds a result into a single value by handling both branches.
+ *
+ * @param result - The result to fold
+ * @param handlers - `onSuccess` and `onError` callbacks
+ * @returns The value returned by whichever handler ran
+ * @example
+ * ```typescript
+ * const message = match(divide(1, 0), {
+ *   onSuccess: (value) => `Result: ${value}`,
+ *   onError: (error) => `Failed: ${error}`,
+ * });
+ * ```
+ */
+export const match = <R extends AnyMaybeError, RSuccess, RError = RSuccess>(
+	result: R,
+	handlers: MatchHandlers<SuccessValue<R>, ErrorValue<R>, RSuccess, RError>,
+): RSuccess | RError => {
+	if (result.success) {
+		return handlers.onSuccess(result.result as SuccessValue<R>);
+	}
+
+	return handlers.onError(result.error as ErrorValue<R>);
+};
+
+/**
+ * Returns the success value or throws an {@link UnwrapError}.
+ *
+ * Prefer {@link unwrapOr} or {@link match} outside of tests and scripts.
+ *
+ * @param result - The result to unwrap
+ * @returns The success value
+ * @throws {UnwrapError} If the result is an error
+ */
+export const unwrap = <R extends AnyMaybeError>(result: R): SuccessValue<R> => {
+	if (!result.success) {
+		throw new UnwrapError(result.error as ErrorValue<R>);
+	}
+
+	return result.result as SuccessValue<R>;
+};
+
+/**
+ * Returns the success value, or the given default if the result is an error.
+ *
+ * @example
+ * ```typescript
+ * const value = unwrapOr(divide(1, 0), 0); // 0
+ * ```
+ */
+export const unwrapOr = <R extends AnyMaybeError, U>(
+	result: R,
+	defaultValue: U,
+): SuccessValue<R> | U => {
+	if (!result.success) {
+		return defaultValue;
+	}
+
+	return result.result as SuccessValue<R>;
+};
+
+/**
+ * Returns the success value, or computes a fallback from the error.
+ *
+ * @example
+ * ```typescript
+ * const value = unwrapOrElse(parseNumber(input), (error) => {
+ *   console.warn(error);
+ *   return 0;
+ * });
+ * ```
+ */
+export const unwrapOrElse = <R extends AnyMaybeError, U>(
+	result: R,
+	fn: (error: ErrorValue<R>) => U,
+): SuccessValue<R> | U => {
+	if (!result.success) {
+		return fn(result.error as ErrorValue<R>);
+	}
+
+	return result.result as SuccessValue<R>;
+};
+
+/**
+ * Runs a side effect on the success value and returns the result unchanged.
+ *
+ * @example
+ * ```typescript
+ * const user = tap(await fetchUser(id), (u) => console.log("Fetched", u.id));
+ * ```
+ */
+export const tap = <R extends AnyMaybeError>(
+	result: R,
+	fn: (value: SuccessValue<R>) => void,
+): R => {
+	if (result.success) {
+		fn(result.result as SuccessValue<R>);
+	}
+
+	return result;
+};
+
+/**
+ * Runs a side effect on the error value and returns the result unchanged.
+ *
+ * @example
+ * ```typescript
+ * const user = tapError(await fetchUser(id), (e) => console.error(e));
+ * ```
+ */
+export const tapError = <R extends AnyMaybeError>(
+	result: R,
+	fn: (error: ErrorValue<R>) => void,
+): R => {
+	if (!result.success) {
+		fn(result.error as ErrorValue<R>);
+	}
+
+	return result;
+};
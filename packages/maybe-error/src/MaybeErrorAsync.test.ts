@@ -0,0 +1,195 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import { MaybeErrorAsync } from "./MaybeErrorAsync";
+
+describe("MaybeErrorAsync", () => {
+	type User = { id: string; teamId: string };
+	type ApiError = { code: number; message: string };
+
+	async function fetchUser(id: string): Promise<MaybeError<User, ApiError>> {
+		if (id === "missing") {
+			return fail({ code: 404, message: "User not found" });
+		}
+		return success({ id, teamId: `team-${id}` });
+	}
+
+	async function fetchTeamName(
+		teamId: string,
+	): Promise<MaybeError<string, "TEAM_NOT_FOUND">> {
+		if (teamId === "team-orphan") {
+			return fail("TEAM_NOT_FOUND");
+		}
+		return success(`Team ${teamId}`);
+	}
+
+	describe("from()", () => {
+		it("should resolve to the wrapped plain MaybeError", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("1"));
+
+			expectTypeOf(result).toEqualTypeOf<MaybeError<User, ApiError>>();
+			expect(result).toEqual({
+				success: true,
+				result: { id: "1", teamId: "team-1" },
+			});
+		});
+
+		it("should accept a synchronous MaybeError", async () => {
+			const result = await MaybeErrorAsync.from(success());
+
+			expect(result).toEqual({ success: true });
+		});
+	});
+
+	describe("map()", () => {
+		it("should transform the success value with sync and async mappers", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("1"))
+				.map((user) => user.id)
+				.map(async (id) => Number(id) + 1);
+
+			expectTypeOf(result).toEqualTypeOf<MaybeError<number, ApiError>>();
+			expect(result).toEqual({ success: true, result: 2 });
+		});
+
+		it("should skip mappers after an error", async () => {
+			let called = false;
+			const result = await MaybeErrorAsync.from(fetchUser("missing")).map(
+				(user) => {
+					called = true;
+					return user.id;
+				},
+			);
+
+			expect(called).toBe(false);
+			expect(result).toEqual({
+				success: false,
+				error: { code: 404, message: "User not found" },
+			});
+		});
+	});
+
+	describe("andThen()", () => {
+		it("should chain async operations and union the error types", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("1")).andThen(
+				(user) => fetchTeamName(user.teamId),
+			);
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<string, ApiError | "TEAM_NOT_FOUND">
+			>();
+			expect(result).toEqual({ success: true, result: "Team team-1" });
+		});
+
+		it("should short-circuit on the first error", async () => {
+			const calls: string[] = [];
+			const result = await MaybeErrorAsync.from(fetchUser("orphan"))
+				.andThen((user) => {
+					calls.push("team");
+					return fetchTeamName(user.teamId);
+				})
+				.andThen((name) => {
+					calls.push("after");
+					return success(name.length);
+				});
+
+			expect(calls).toEqual(["team"]);
+			expect(result).toEqual({ success: false, error: "TEAM_NOT_FOUND" });
+		});
+
+		it("should accept another MaybeErrorAsync", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("1")).flatMap(
+				(user) => MaybeErrorAsync.from(fetchUser(`${user.id}-copy`)),
+			);
+
+			expectTypeOf(result).toEqualTypeOf<MaybeError<User, ApiError>>();
+			expect(result).toEqual({
+				success: true,
+				result: { id: "1-copy", teamId: "team-1-copy" },
+			});
+		});
+	});
+
+	describe("mapError() / orElse()", () => {
+		it("should transform the error value", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("missing")).mapError(
+				(error) => ({ type: "handler" as const, error }),
+			);
+
+			expect(result).toEqual({
+				success: false,
+				error: {
+					type: "handler",
+					error: { code: 404, message: "User not found" },
+				},
+			});
+		});
+
+		it("should recover from an error", async () => {
+			const result = await MaybeErrorAsync.from(fetchUser("missing")).orElse(
+				() => fetchUser("guest"),
+			);
+
+			expect(result).toEqual({
+				success: true,
+				result: { id: "guest", teamId: "team-guest" },
+			});
+		});
+	});
+
+	describe("tap() / tapError()", () => {
+		it("should run side effects without changing the result", async () => {
+			const seen: string[] = [];
+
+			const ok = await MaybeErrorAsync.from(fetchUser("1"))
+				.tap((user) => {
+					seen.push(`ok:${user.id}`);
+				})
+				.tapError(async (error) => {
+					seen.push(`err:${error.code}`);
+				});
+			const bad = await MaybeErrorAsync.from(fetchUser("missing"))
+				.tap((user) => {
+					seen.push(`ok:${user.id}`);
+				})
+				.tapError(async (error) => {
+					seen.push(`err:${error.code}`);
+				});
+
+			expect(seen).toEqual(["ok:1", "err:404"]);
+			expect(ok.success).toBe(true);
+			expect(bad.success).toBe(false);
+		});
+	});
+
+	describe("match() / unwrapOr()", () => {
+		it("should fold both branches", async () => {
+			const handlers = {
+				onSuccess: (user: User) => user.id,
+				onError: async (error: ApiError) => error.code,
+			};
+
+			expect(await MaybeErrorAsync.from(fetchUser("1")).match(handlers)).toBe(
+				"1",
+			);
+			expect(
+				await MaybeErrorAsync.from(fetchUser("missing")).match(handlers),
+			).toBe(404);
+		});
+
+		it("should resolve to a default on error", async () => {
+			const value = await MaybeErrorAsync.from(fetchUser("missing"))
+				.map((user) => user.id)
+				.unwrapOr(null);
+
+			expectTypeOf(value).toEqualTypeOf<string | null>();
+			expect(value).toBe(null);
+		});
+	});
+
+	it("should propagate rejections", async () => {
+		const pipeline = MaybeErrorAsync.from(fetchUser("1")).map(() => {
+			throw new Error("boom");
+		});
+
+		await expect(pipeline.then((result) => result)).rejects.toThrow("boom");
+	});
+});
@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Chainable wrapper around `Promise<MaybeError<T, TError>>`
+ *
+ * `MaybeErrorAsync` lets several async, fallible steps be composed without
+ * awaiting and branching between each of them. It is a thenable, so awaiting it
+ * yields a plain `MaybeError` object that can be returned from actions, loaders
+ * and routes as-is.
+ *
+ * @example
+ * ```typescript
+ * const result = await MaybeErrorAsync.from(fetchUser(id))
+ *   .andThen((user) => fetchTeam(user.teamId))
+ *   .map((team) => team.name)
+ *   .mapError((error) => ({ type: "handler" as const, error }));
+ * // result: MaybeError<string, { type: "handler"; error: ApiError }>
+ * ```
+ */
+
+import {
+	type AnyMaybeError,
+	type DefiniteError,
+	type DefiniteSuccess,
+	type ErrorValue,
+	fail,
+	type MatchHandlers,
+	type MaybeError,
+	map,
+	type SuccessValue,
+} from "./MaybeError";
+
+/**
+ * A value or a promise-like of that value.
+ */
+export type MaybePromise<T> = T | PromiseLike<T>;
+
+const unwrapSuccess = <T>(result: DefiniteSuccess<T>): T =>
+	(result as { result?: T }).result as T;
+
+/**
+ * A thenable wrapper for asynchronous MaybeError pipelines.
+ *
+ * Every chaining method returns a new `MaybeErrorAsync`; the callbacks only run
+ * once the previous step resolved, and steps after the first `DefiniteError`
+ * are skipped. Callbacks may return plain values or promises.
+ *
+ * Rejections of the underlying promise are not caught and propagate to the
+ * awaiting caller.
+ *
+ * @template T - The type of the success value
+ * @template TError - The type of the error value
+ */
+export class MaybeErrorAsync<T = undefined, TError = string>
+	implements PromiseLike<MaybeError<T, TError>>
+{
+	private readonly promise: Promise<MaybeError<T, TError>>;
+
+	constructor(value: MaybePromise<MaybeError<T, TError>>) {
+		this.promise = Promise.resolve(value);
+	}
+
+	/**
+	 * Wraps a MaybeError, or a promise of one, inferring both type parameters.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = MaybeErrorAsync.from(fetchUser("123"));
+	 * // MaybeErrorAsync<User, ApiError>
+	 * ```
+	 */
+	static from<R extends AnyMaybeError>(
+		value: MaybePromise<R>,
+	): MaybeErrorAsync<SuccessValue<R>, ErrorValue<R>> {
+		return new MaybeErrorAsync(
+			value as MaybePromise<MaybeError<SuccessValue<R>, ErrorValue<R>>>,
+		);
+	}
+
+	// biome-ignore lint/suspicious/noThenProperty: MaybeErrorAsync is intentionally a thenable so it can be awaited
+	then<TResult1 = MaybeError<T, TError>, TResult2 = never>(
+		onfulfilled?:
+			| ((value: MaybeError<T, TError>) => TResult1 | PromiseLike<TResult1>)
+			| null,
+		onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+	): Promise<TResult1 | TResult2> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Makes the pipeline usable with `yield*` inside `genAsync`: yields the
+	 * error if the pipeline failed, otherwise returns the success value.
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<DefiniteError<TError>, T> {
+		const result = await this.promise;
+
+		if (!result.success) {
+			yield result;
+			throw new Error("A step generator was resumed after yielding an error");
+		}
+
+		return unwrapSuccess(result);
+	}
+
+	/**
+	 * Transforms the success value.
+	 */
+	map<U>(fn: (value: T) => MaybePromise<U>): MaybeErrorAsync<U, TError> {
+		return new MaybeErrorAsync<U, TError>(
+			this.promise.then(async (result) => {
+				if (!result.success) {
+					return result;
+				}
+
+				const value = await fn(unwrapSuccess(result));
+				return map(result, () => value) as MaybeError<U, TError>;
+			}),
+		);
+	}
+
+	/**
+	 * Transforms the error value.
+	 */
+	mapError<F>(fn: (error: TError) => MaybePromise<F>): MaybeErrorAsync<T, F> {
+		return new MaybeErrorAsync<T, F>(
+			this.promise.then(async (result) => {
+				if (result.success) {
+					return result;
+				}
+
+				return fail(await fn(result.error));
+			}),
+		);
+	}
+
+	/**
+	 * Chains another fallible step onto the success value.
+	 *
+	 * `fn` may return a `MaybeError`, a promise of one, or another
+	 * `MaybeErrorAsync`. The resulting error type is the union of both.
+	 */
+	andThen<R extends AnyMaybeError>(
+		fn: (value: T) => MaybePromise<R>,
+	): MaybeErrorAsync<SuccessValue<R>, TError | ErrorValue<R>> {
+		return new MaybeErrorAsync<SuccessValue<R>, TError | ErrorValue<R>>(
+			this.promise.then(async (result) => {
+				if (!result.success) {
+					return result;
+				}
+
+				return (await fn(unwrapSuccess(result))) as MaybeError<
+					SuccessValue<R>,
+					ErrorValue<R>
+				>;
+			}),
+		);
+	}
+
+	/**
+	 * Alias of {@link MaybeErrorAsync.andThen}.
+	 */
+	flatMap<R extends AnyMaybeError>(
+		fn: (value: T) => MaybePromise<R>,
+	): MaybeErrorAsync<SuccessValue<R>, TError | ErrorValue<R>> {
+		return this.andThen(fn);
+	}
+
+	/**
+	 * Recovers from an error by running another fallible step.
+	 */
+	orElse<R extends AnyMaybeError>(
+		fn: (error: TError) => MaybePromise<R>,
+	): MaybeErrorAsync<T | SuccessValue<R>, ErrorValue<R>> {
+		return new MaybeErrorAsync<T | SuccessValue<R>, ErrorValue<R>>(
+			this.promise.then(async (result) => {
+				if (result.success) {
+					return result as DefiniteSuccess<T | SuccessValue<R>>;
+				}
+
+				return (await fn(result.error)) as MaybeError<
+					SuccessValue<R>,
+					ErrorValue<R>
+				>;
+			}),
+		);
+	}
+
+	/**
+	 * Runs a side effect on the success value without changing the result.
+	 */
+	tap(fn: (value: T) => MaybePromise<void>): MaybeErrorAsync<T, TError> {
+		return new MaybeErrorAsync<T, TError>(
+			this.promise.then(async (result) => {
+				if (result.success) {
+					await fn(unwrapSuccess(result));
+				}
+
+				return result;
+			}),
+		);
+	}
+
+	/**
+	 * Runs a side effect on the error value without changing the result.
+	 */
+	tapError(
+		fn: (error: TError) => MaybePromise<void>,
+	): MaybeErrorAsync<T, TError> {
+		return new MaybeErrorAsync<T, TError>(
+			this.promise.then(async (result) => {
+				if (!result.success) {
+					await fn((result as DefiniteError<TError>).error);
+				}
+
+				return result;
+			}),
+		);
+	}
+
+	/**
+	 * Folds both branches into a single value.
+	 */
+	async match<RSuccess, RError = RSuccess>(
+		handlers: MatchHandlers<
+			T,
+			TError,
+			MaybePromise<RSuccess>,
+			MaybePromise<RError>
+		>,
+	): Promise<RSuccess | RError> {
+		const result = await this.promise;
+
+		if (result.success) {
+			return handlers.onSuccess(unwrapSuccess(result));
+		}
+
+		return handlers.onError(result.error);
+	}
+
+	/**
+	 * Resolves to the success value, or to the given default on error.
+	 */
+	async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+		const result = await this.promise;
+
+		return result.success ? unwrapSuccess(result) : defaultValue;
+	}
+}
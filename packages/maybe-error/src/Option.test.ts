@@ -0,0 +1,140 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import {
+	type AssumeSome,
+	fromMaybeError,
+	isNone,
+	isSome,
+	none,
+	Option,
+	some,
+	toMaybeError,
+	UnwrapNoneError,
+} from "./Option";
+
+describe("Option", () => {
+	type User = { id: string; name: string };
+	const users = new Map<string, User>([["1", { id: "1", name: "Ada" }]]);
+
+	function findUser(id: string): Option<User> {
+		return Option.fromNullable(users.get(id));
+	}
+
+	describe("some() / none()", () => {
+		it("should create both variants", () => {
+			expect(some(42)).toEqual({ some: true, value: 42 });
+			expect(none()).toEqual({ some: false });
+		});
+
+		it("should keep falsy values as some", () => {
+			expect(some(0)).toEqual({ some: true, value: 0 });
+			expect(some(undefined)).toEqual({ some: true, value: undefined });
+		});
+
+		it("should narrow with type guards", () => {
+			const options = [some(1), none(), some(3)] as Option<number>[];
+
+			const values = options.filter(isSome).map((o) => o.value);
+			expectTypeOf(values).toEqualTypeOf<number[]>();
+			expect(values).toEqual([1, 3]);
+			expect(options.filter(isNone)).toHaveLength(1);
+		});
+	});
+
+	describe("conversions", () => {
+		it("should convert to a MaybeError", () => {
+			const found = toMaybeError(findUser("1"), { code: 404 });
+			const missing = toMaybeError(findUser("2"), { code: 404 });
+
+			expectTypeOf(found).toEqualTypeOf<MaybeError<User, { code: number }>>();
+			expect(found).toEqual({
+				success: true,
+				result: { id: "1", name: "Ada" },
+			});
+			expect(missing).toEqual({ success: false, error: { code: 404 } });
+		});
+
+		it("should omit the result of void values", () => {
+			expect(toMaybeError(some(undefined), "missing")).toStrictEqual(success());
+		});
+
+		it("should convert from a MaybeError", () => {
+			const result: MaybeError<number, string> = success(5);
+
+			expectTypeOf(fromMaybeError(result)).toEqualTypeOf<Option<number>>();
+			expect(fromMaybeError(result)).toEqual({ some: true, value: 5 });
+			expect(fromMaybeError(fail("nope"))).toEqual({ some: false });
+		});
+
+		it("should build from nullable values", () => {
+			expect(Option.fromNullable(null)).toEqual({ some: false });
+			expect(Option.fromNullable(undefined)).toEqual({ some: false });
+			expect(Option.fromNullable("")).toEqual({ some: true, value: "" });
+		});
+	});
+
+	describe("combinators", () => {
+		it("should map and chain values", () => {
+			const name = Option.map(findUser("1"), (user) => user.name);
+			const initial = Option.andThen(name, (n) =>
+				n.length > 0 ? some(n[0]) : none(),
+			);
+
+			expectTypeOf(name).toEqualTypeOf<Option<string>>();
+			expect(name).toEqual({ some: true, value: "Ada" });
+			expect(initial).toEqual({ some: true, value: "A" });
+			expect(Option.flatMap(findUser("2"), () => some(1))).toEqual({
+				some: false,
+			});
+		});
+
+		it("should recover and filter", () => {
+			expect(Option.orElse(findUser("2"), () => some("guest"))).toEqual({
+				some: true,
+				value: "guest",
+			});
+			expect(Option.filter(some(3), (n) => n > 5)).toEqual({ some: false });
+			expect(Option.filter(some(8), (n) => n > 5)).toEqual({
+				some: true,
+				value: 8,
+			});
+		});
+
+		it("should match both branches", () => {
+			const greet = (id: string) =>
+				Option.match(findUser(id), {
+					onSome: (user) => `Hello, ${user.name}`,
+					onNone: () => "Hello, guest",
+				});
+
+			expect(greet("1")).toBe("Hello, Ada");
+			expect(greet("2")).toBe("Hello, guest");
+		});
+
+		it("should unwrap values", () => {
+			expect(Option.unwrap(some(1))).toBe(1);
+			expect(() => Option.unwrap(none())).toThrow(UnwrapNoneError);
+			expect(Option.unwrapOr(findUser("2"), null)).toBe(null);
+			expect(Option.unwrapOrElse(findUser("2"), () => "fallback")).toBe(
+				"fallback",
+			);
+		});
+
+		it("should run side effects on the matching branch only", () => {
+			const seen: string[] = [];
+
+			Option.tap(some("a"), (value) => seen.push(value));
+			Option.tap(none(), () => seen.push("never"));
+			Option.tapNone(none(), () => seen.push("none"));
+			Option.tapNone(some("b"), () => seen.push("never"));
+
+			expect(seen).toEqual(["a", "none"]);
+		});
+	});
+
+	describe("Type utilities", () => {
+		it("should extract the value type with AssumeSome", () => {
+			expectTypeOf<AssumeSome<Option<User>>>().toEqualTypeOf<User>();
+		});
+	});
+});
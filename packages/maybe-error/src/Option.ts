@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Option type for values that may be absent
+ *
+ * `Option<T>` represents "a value or nothing" without conflating absence with
+ * failure, which `MaybeError<T | undefined>` does. It uses the same
+ * discriminated-union style as `MaybeError`, and converts to and from it with
+ * {@link toMaybeError} and {@link fromMaybeError}.
+ *
+ * The combinators live on the {@link Option} object (`Option.map`,
+ * `Option.andThen`, ...) so they do not clash with the MaybeError ones.
+ *
+ * @example
+ * ```typescript
+ * function findUser(id: string): Option<User> {
+ *   const user = users.get(id);
+ *   return user ? some(user) : none();
+ * }
+ *
+ * const name = Option.unwrapOr(Option.map(findUser("1"), (u) => u.name), "Guest");
+ * const result = toMaybeError(findUser("1"), "User not found");
+ * // MaybeError<User, string>
+ * ```
+ */
+
+import {
+	type AnyMaybeError,
+	fail,
+	type MaybeError,
+	type SuccessValue,
+	toSuccess,
+} from "./MaybeError";
+
+/**
+ * An Option that holds a value.
+ *
+ * @template T - The type of the value
+ */
+export type Some<T> = {
+	some: true;
+	value: T;
+};
+
+/**
+ * An Option that holds nothing.
+ */
+export type None = {
+	some: false;
+};
+
+/**
+ * A discriminated union representing either a value or its absence.
+ *
+ * @template T - The type of the value
+ * @example
+ * ```typescript
+ * const option: Option<number> = some(42);
+ * if (option.some) {
+ *   console.log(option.value); // 42
+ * }
+ * ```
+ */
+export type Option<T> = Some<T> | None;
+
+/**
+ * Utility type to extract the value type from an Option type, like
+ * `AssumeSuccess` does for MaybeError.
+ *
+ * @template T - An Option type
+ * @example
+ * ```typescript
+ * type UserOption = Option<User>;
+ * type UserType = AssumeSome<UserOption>; // User
+ * ```
+ */
+export type AssumeSome<T extends Option<unknown>> = Exclude<
+	T,
+	undefined
+> extends Option<infer U>
+	? U
+	: never;
+
+/**
+ * Handlers passed to `Option.match`, one per branch.
+ */
+export type OptionMatchHandlers<T, RSome, RNone> = {
+	onSome: (value: T) => RSome;
+	onNone: () => RNone;
+};
+
+/**
+ * Thrown by `Option.unwrap` when it is called on `none()`.
+ */
+export class UnwrapNoneError extends Error {
+	constructor() {
+		super("Called unwrap on an empty option");
+		this.name = "UnwrapNoneError";
+	}
+}
+
+const NONE: None = Object.freeze({ some: false });
+
+/**
+ * Creates an Option holding a value.
+ *
+ * @example
+ * ```typescript
+ * const option = some(42); // Some<number>
+ * ```
+ */
+export const some = <T>(value: T): Some<T> => {
+	return { some: true, value };
+};
+
+/**
+ * Creates an empty Option.
+ *
+ * @example
+ * ```typescript
+ * const option: Option<number> = none();
+ * ```
+ */
+export const none = (): None => {
+	return NONE;
+};
+
+/**
+ * Type guard that narrows an Option to `Some`.
+ */
+export const isSome = <T>(option: Option<T>): option is Some<T> => {
+	return option.some;
+};
+
+/**
+ * Type guard that narrows an Option to `None`.
+ */
+export const isNone = <T>(option: Option<T>): option is None => {
+	return !option.some;
+};
+
+/**
+ * Converts an Option into a MaybeError, failing with the given error when
+ * the Option is empty.
+ *
+ * @param option - The Option to convert
+ * @param errorIfNone - The error to use when the Option is empty
+ * @returns A success with the value, or a failure with `errorIfNone`
+ * @example
+ * ```typescript
+ * const result = toMaybeError(findUser(id), { code: 404 });
+ * // MaybeError<User, { code: number }>
+ * ```
+ */
+export const toMaybeError = <T, TError>(
+	option: Option<T>,
+	errorIfNone: TError,
+): MaybeError<T, TError> => {
+	if (!option.some) {
+		return fail(errorIfNone);
+	}
+
+	return toSuccess(option.value);
+};
+
+/**
+ * Converts a MaybeError into an Option, discarding the error.
+ *
+ * @param result - The result to convert
+ * @returns `some` with the success value, or `none` on error
+ * @example
+ * ```typescript
+ * const cached = fromMaybeError(readCache(key)); // Option<Value>
+ * ```
+ */
+export const fromMaybeError = <R extends AnyMaybeError>(
+	result: R,
+): Option<SuccessValue<R>> => {
+	if (!result.success) {
+		return NONE;
+	}
+
+	return some(result.result as SuccessValue<R>);
+};
+
+/**
+ * Combinators for {@link Option}, mirroring the MaybeError combinators.
+ *
+ * @example
+ * ```typescript
+ * const label = Option.match(Option.map(findUser(id), (u) => u.name), {
+ *   onSome: (name) => `Hello, ${name}`,
+ *   onNone: () => "Hello, guest",
+ * });
+ * ```
+ */
+export const Option = {
+	/**
+	 * Creates an Option from a value that may be `null` or `undefined`.
+	 */
+	fromNullable: <T>(value: T | null | undefined): Option<T> => {
+		return value === null || value === undefined ? NONE : some(value);
+	},
+
+	/**
+	 * Transforms the value, leaving `none` untouched.
+	 */
+	map: <T, U>(option: Option<T>, fn: (value: T) => U): Option<U> => {
+		return option.some ? some(fn(option.value)) : NONE;
+	},
+
+	/**
+	 * Chains another Option-returning operation onto the value.
+	 */
+	andThen: <T, U>(
+		option: Option<T>,
+		fn: (value: T) => Option<U>,
+	): Option<U> => {
+		return option.some ? fn(option.value) : NONE;
+	},
+
+	/**
+	 * Alias of `Option.andThen`.
+	 */
+	flatMap: <T, U>(
+		option: Option<T>,
+		fn: (value: T) => Option<U>,
+	): Option<U> => {
+		return option.some ? fn(option.value) : NONE;
+	},
+
+	/**
+	 * Replaces `none` with the Option returned by `fn`.
+	 */
+	orElse: <T, U>(option: Option<T>, fn: () => Option<U>): Option<T | U> => {
+		return option.some ? option : fn();
+	},
+
+	/**
+	 * Keeps the value only if it satisfies the predicate.
+	 */
+	filter: <T>(
+		option: Option<T>,
+		predicate: (value: T) => boolean,
+	): Option<T> => {
+		return option.some && predicate(option.value) ? option : NONE;
+	},
+
+	/**
+	 * Folds both branches into a single value.
+	 */
+	match: <T, RSome, RNone = RSome>(
+		option: Option<T>,
+		handlers: OptionMatchHandlers<T, RSome, RNone>,
+	): RSome | RNone => {
+		return option.some ? handlers.onSome(option.value) : handlers.onNone();
+	},
+
+	/**
+	 * Returns the value or throws an {@link UnwrapNoneError}.
+	 */
+	unwrap: <T>(option: Option<T>): T => {
+		if (!option.some) {
+			throw new UnwrapNoneError();
+		}
+
+		return option.value;
+	},
+
+	/**
+	 * Returns the value, or the given default for `none`.
+	 */
+	unwrapOr: <T, U>(option: Option<T>, defaultValue: U): T | U => {
+		return option.some ? option.value : defaultValue;
+	},
+
+	/**
+	 * Returns the value, or computes a fallback for `none`.
+	 */
+	unwrapOrElse: <T, U>(option: Option<T>, fn: () => U): T | U => {
+		return option.some ? option.value : fn();
+	},
+
+	/**
+	 * Runs a side effect on the value and returns the Option unchanged.
+	 */
+	tap: <T>(option: Option<T>, fn: (value: T) => void): Option<T> => {
+		if (option.some) {
+			fn(option.value);
+		}
+
+		return option;
+	},
+
+	/**
+	 * Runs a side effect when the Option is empty and returns it unchanged.
+	 */
+	tapNone: <T>(option: Option<T>, fn: () => void): Option<T> => {
+		if (!option.some) {
+			fn();
+		}
+
+		return option;
+	},
+
+	/**
+	 * Converts to a MaybeError, see {@link toMaybeError}.
+	 */
+	toMaybeError,
+
+	/**
+	 * Converts from a MaybeError, see {@link fromMaybeError}.
+	 */
+	fromMaybeError,
+};
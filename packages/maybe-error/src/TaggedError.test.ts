@@ -0,0 +1,130 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import {
+	defineError,
+	type ErrorOfDefinition,
+	isTaggedError,
+	matchError,
+	type TaggedError,
+} from "./TaggedError";
+
+describe("TaggedError", () => {
+	const NotFound = defineError("NotFound", {
+		status: 404,
+		message: (meta: { id: string }) => `User ${meta.id} not found`,
+	});
+	const Forbidden = defineError("Forbidden", { status: 403 });
+	const Conflict = defineError<"Conflict", { field: string }>("Conflict", {
+		status: 409,
+		message: "Already exists",
+	});
+
+	type UserError = ErrorOfDefinition<
+		typeof NotFound | typeof Forbidden | typeof Conflict
+	>;
+
+	function getUser(id: string): MaybeError<{ id: string }, UserError> {
+		if (id === "missing") return fail(NotFound({ meta: { id } }));
+		if (id === "secret") return fail(Forbidden());
+		if (id === "taken") return fail(Conflict({ meta: { field: "id" } }));
+		return success({ id });
+	}
+
+	describe("defineError()", () => {
+		it("should create discriminated error objects", () => {
+			const error = NotFound({ meta: { id: "42" } });
+
+			expectTypeOf(error).toEqualTypeOf<
+				TaggedError<"NotFound", { id: string }>
+			>();
+			expect(error).toEqual({
+				_tag: "NotFound",
+				message: "User 42 not found",
+				status: 404,
+				meta: { id: "42" },
+			});
+		});
+
+		it("should default the message to the definition message or tag", () => {
+			expect(Conflict({ meta: { field: "email" } }).message).toBe(
+				"Already exists",
+			);
+			expect(Forbidden()).toEqual({
+				_tag: "Forbidden",
+				message: "Forbidden",
+				status: 403,
+			});
+		});
+
+		it("should allow overriding the message and attaching a cause", () => {
+			const root = new Error("connection reset");
+			const inner = Forbidden({ message: "Token expired", cause: root });
+			const outer = Conflict({ meta: { field: "email" }, cause: inner });
+
+			expect(inner.message).toBe("Token expired");
+			expect(outer.cause).toBe(inner);
+			expect((outer.cause as typeof inner).cause).toBe(root);
+		});
+
+		it("should omit status when none is defined", () => {
+			const Unknown = defineError("Unknown");
+
+			expect(Unknown()).toEqual({ _tag: "Unknown", message: "Unknown" });
+			expect("status" in Unknown()).toBe(false);
+		});
+
+		it("should expose the tag, status and a type guard", () => {
+			expect(NotFound.tag).toBe("NotFound");
+			expect(NotFound.status).toBe(404);
+			expect(NotFound.is(NotFound({ meta: { id: "1" } }))).toBe(true);
+			expect(NotFound.is(Forbidden())).toBe(false);
+			expect(NotFound.is("NotFound")).toBe(false);
+		});
+	});
+
+	describe("isTaggedError()", () => {
+		it("should recognise tagged errors with an optional tag", () => {
+			expect(isTaggedError(Forbidden())).toBe(true);
+			expect(isTaggedError(Forbidden(), "Forbidden")).toBe(true);
+			expect(isTaggedError(Forbidden(), "NotFound")).toBe(false);
+			expect(isTaggedError(new Error("plain"))).toBe(false);
+			expect(isTaggedError({ _tag: "NoMessage" })).toBe(false);
+			expect(isTaggedError(null)).toBe(false);
+		});
+	});
+
+	describe("matchError()", () => {
+		const describeError = (error: UserError) =>
+			matchError(error, {
+				NotFound: (e) => `missing ${e.meta.id}`,
+				Forbidden: (e) => e.status ?? 0,
+				Conflict: (e) => ({ field: e.meta.field }),
+			});
+
+		it("should call the handler matching the tag", () => {
+			const results = ["missing", "secret", "taken"].map((id) => {
+				const result = getUser(id);
+				return result.success ? null : describeError(result.error);
+			});
+
+			expect(results).toEqual(["missing missing", 403, { field: "id" }]);
+		});
+
+		it("should infer the union of handler return types", () => {
+			expectTypeOf(describeError).returns.toEqualTypeOf<
+				string | number | { field: string }
+			>();
+		});
+
+		it("should require a handler for every tag", () => {
+			const partial = (error: UserError) =>
+				// @ts-expect-error Conflict is not handled
+				matchError(error, {
+					NotFound: () => 1,
+					Forbidden: () => 2,
+				});
+
+			expect(partial).toBeFunction();
+		});
+	});
+});
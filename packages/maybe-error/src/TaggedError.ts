@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Tagged, discriminated error values for use with MaybeError
+ *
+ * `defineError` declares an error kind once, with its tag, default message and
+ * HTTP status. Calling the definition creates plain, serializable error objects
+ * discriminated by `_tag`, and `matchError` handles a union of them
+ * exhaustively.
+ *
+ * @example
+ * ```typescript
+ * const NotFound = defineError("NotFound", {
+ *   status: 404,
+ *   message: (meta: { id: string }) => `User ${meta.id} not found`,
+ * });
+ * const Forbidden = defineError("Forbidden", { status: 403 });
+ *
+ * function getUser(id: string): MaybeError<User, ErrorOfDefinition<typeof NotFound | typeof Forbidden>> {
+ *   return fail(NotFound({ meta: { id } }));
+ * }
+ *
+ * const result = getUser("1");
+ * if (!result.success) {
+ *   const message = matchError(result.error, {
+ *     NotFound: (error) => `Missing: ${error.meta.id}`,
+ *     Forbidden: () => "Not allowed",
+ *   });
+ * }
+ * ```
+ */
+
+/**
+ * A plain error object discriminated by its `_tag`.
+ *
+ * Uses the same conditional pattern as `DefiniteSuccess`: `meta` is optional
+ * when the error has no metadata type, and required otherwise.
+ *
+ * @template TTag - The discriminating tag
+ * @template TMeta - The metadata type (defaults to undefined)
+ */
+export type TaggedError<TTag extends string = string, TMeta = undefined> = {
+	_tag: TTag;
+	message: string;
+	/** HTTP status associated with this kind of error, if any */
+	status?: number;
+	/** The underlying error, which may itself be a TaggedError */
+	cause?: unknown;
+} & (TMeta extends undefined ? { meta?: TMeta } : { meta: TMeta });
+
+/**
+ * Structural supertype of every TaggedError, whatever its metadata type.
+ *
+ * @template TTag - The discriminating tag (defaults to any string)
+ */
+export type AnyTaggedError<TTag extends string = string> = {
+	_tag: TTag;
+	message: string;
+	status?: number;
+	cause?: unknown;
+	meta?: unknown;
+};
+
+/**
+ * Options used when declaring an error kind with {@link defineError}.
+ *
+ * @template TMeta - The metadata type
+ */
+export type ErrorDefinitionConfig<TMeta> = {
+	/** HTTP status copied onto every created error */
+	status?: number;
+	/** Default message, or a function building it from the metadata */
+	message?: string | ((meta: TMeta) => string);
+};
+
+/**
+ * Options used when creating an error from a definition.
+ *
+ * @template TMeta - The metadata type
+ */
+export type TaggedErrorOptions<TMeta> = {
+	/** Overrides the default message */
+	message?: string;
+	cause?: unknown;
+} & (TMeta extends undefined ? { meta?: TMeta } : { meta: TMeta });
+
+/**
+ * A callable error kind returned by {@link defineError}.
+ *
+ * @template TTag - The discriminating tag
+ * @template TMeta - The metadata type
+ */
+export type ErrorDefinition<TTag extends string, TMeta = undefined> = {
+	(
+		...options: TMeta extends undefined
+			? [options?: TaggedErrorOptions<TMeta>]
+			: [options: TaggedErrorOptions<TMeta>]
+	): TaggedError<TTag, TMeta>;
+	readonly tag: TTag;
+	readonly status?: number;
+	/** Type guard for errors created by this definition */
+	is: (value: unknown) => value is TaggedError<TTag, TMeta>;
+};
+
+/**
+ * Extracts the error type produced by one or more error definitions.
+ *
+ * @example
+ * ```typescript
+ * type UserError = ErrorOfDefinition<typeof NotFound | typeof Forbidden>;
+ * ```
+ */
+export type ErrorOfDefinition<D> = D extends ErrorDefinition<
+	infer TTag,
+	infer TMeta
+>
+	? TaggedError<TTag, TMeta>
+	: never;
+
+/**
+ * Handlers passed to {@link matchError}: one per tag in the error union.
+ */
+export type TaggedErrorHandlers<E extends AnyTaggedError> = {
+	[K in E["_tag"]]: (error: Extract<E, { _tag: K }>) => unknown;
+};
+
+/**
+ * Checks whether a value is a TaggedError, optionally with a specific tag.
+ *
+ * @example
+ * ```typescript
+ * if (isTaggedError(error, "NotFound")) {
+ *   return new Response(error.message, { status: error.status });
+ * }
+ * ```
+ */
+export const isTaggedError = <TTag extends string = string>(
+	value: unknown,
+	tag?: TTag,
+): value is AnyTaggedError<TTag> => {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const candidate = value as { _tag?: unknown; message?: unknown };
+	if (
+		typeof candidate._tag !== "string" ||
+		typeof candidate.message !== "string"
+	) {
+		return false;
+	}
+
+	return tag === undefined || candidate._tag === tag;
+};
+
+/**
+ * Declares a kind of error with a tag, an optional HTTP status and a default
+ * message.
+ *
+ * The metadata type is inferred from a `message` function, or can be given
+ * explicitly as the second type argument.
+ *
+ * @template TTag - The discriminating tag
+ * @template TMeta - The metadata type (defaults to undefined)
+ * @param tag - The `_tag` of every created error
+ * @param config - Status and default message
+ * @returns A function creating errors of this kind
+ * @example
+ * ```typescript
+ * const Unauthorized = defineError("Unauthorized", { status: 401 });
+ * const error = Unauthorized({ message: "Token expired" });
+ * // { _tag: "Unauthorized", message: "Token expired", status: 401 }
+ *
+ * const Conflict = defineError<"Conflict", { field: string }>("Conflict", {
+ *   status: 409,
+ * });
+ * const conflict = Conflict({ meta: { field: "email" }, cause: dbError });
+ * ```
+ */
+export const defineError = <TTag extends string, TMeta = undefined>(
+	tag: TTag,
+	config: ErrorDefinitionConfig<TMeta> = {},
+): ErrorDefinition<TTag, TMeta> => {
+	const create = (
+		options: { message?: string; cause?: unknown; meta?: TMeta } = {},
+	) => {
+		const error: {
+			_tag: TTag;
+			message: string;
+			status?: number;
+			cause?: unknown;
+			meta?: TMeta;
+		} = {
+			_tag: tag,
+			message:
+				options.message ??
+				(typeof config.message === "function"
+					? config.message(options.meta as TMeta)
+					: (config.message ?? tag)),
+		};
+
+		if (config.status !== undefined) {
+			error.status = config.status;
+		}
+		if (options.cause !== undefined) {
+			error.cause = options.cause;
+		}
+		if (options.meta !== undefined) {
+			error.meta = options.meta;
+		}
+
+		return error as TaggedError<TTag, TMeta>;
+	};
+
+	return Object.assign(create, {
+		tag,
+		status: config.status,
+		is: (value: unknown): value is TaggedError<TTag, TMeta> =>
+			isTaggedError(value, tag),
+	}) as ErrorDefinition<TTag, TMeta>;
+};
+
+/**
+ * Handles a union of tagged errors with one handler per tag.
+ *
+ * The handlers object must cover every tag in the union, so adding a new
+ * error kind to a function's return type is a compile error at every
+ * `matchError` call site until it is handled.
+ *
+ * @param error - The tagged error to handle
+ * @param handlers - One handler per tag, each receiving the narrowed error
+ * @returns The value returned by the matching handler
+ * @example
+ * ```typescript
+ * const status = matchError(result.error, {
+ *   NotFound: () => 404,
+ *   Forbidden: () => 403,
+ * });
+ * ```
+ */
+export const matchError = <
+	E extends AnyTaggedError,
+	H extends TaggedErrorHandlers<E>,
+>(
+	error: E,
+	handlers: H,
+): ReturnType<H[E["_tag"]]> => {
+	const handler = handlers[error._tag as E["_tag"]] as unknown as (
+		error: E,
+	) => ReturnType<H[E["_tag"]]>;
+
+	return handler(error);
+};
@@ -0,0 +1,129 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import type { z } from "zod";
+import { fail, type MaybeError, success } from "./MaybeError";
+import { type FieldErrors, Validation } from "./Validation";
+
+type Signup = {
+	email: string;
+	password: string;
+	confirm: string;
+	tags: string[];
+};
+
+const signup: Signup = {
+	email: "taken@example.com",
+	password: "hunter22",
+	confirm: "hunter2",
+	tags: ["ok", ""],
+};
+
+describe("Validation", () => {
+	it("should succeed with the value when every check passes", async () => {
+		const result = await Validation.of(signup)
+			.check("email", (data) => data.email.includes("@"), "Invalid email")
+			.check([], () => true, "Never reported")
+			.run();
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<Signup, FieldErrors<Signup>>
+		>();
+		expect(result).toEqual({ success: true, result: signup });
+	});
+
+	it("should omit the result when validating undefined", async () => {
+		const result = await Validation.of(undefined)
+			.check([], () => true, "Never reported")
+			.run();
+
+		expect(result).toStrictEqual(success());
+	});
+
+	it("should accumulate every failure by field path", async () => {
+		const result = await Validation.of(signup)
+			.check(
+				"email",
+				async (data) => data.email !== "taken@example.com",
+				"Email is taken",
+			)
+			.check(
+				"confirm",
+				(data) => data.confirm === data.password,
+				"Passwords do not match",
+			)
+			.check(["tags", 1], (data) => data.tags[1] !== "", "Tag is empty")
+			.check([], () => false, "Signup is closed")
+			.run();
+
+		const tagItems: FieldErrors<string>[] = [];
+		tagItems[1] = { errors: ["Tag is empty"] };
+		expect(result).toEqual({
+			success: false,
+			error: {
+				errors: ["Signup is closed"],
+				properties: {
+					email: { errors: ["Email is taken"] },
+					confirm: { errors: ["Passwords do not match"] },
+					tags: {
+						errors: [],
+						items: tagItems,
+					},
+				},
+			},
+		});
+	});
+
+	it("should report errors of the same field in the order checks were added", async () => {
+		const result = await Validation.of(signup)
+			.check(
+				"password",
+				async (data) => {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					return data.password.length >= 12;
+				},
+				"Too short",
+			)
+			.check("password", (data) => /[A-Z]/.test(data.password), "No uppercase")
+			.run();
+
+		expect(result).toEqual({
+			success: false,
+			error: {
+				errors: [],
+				properties: { password: { errors: ["Too short", "No uppercase"] } },
+			},
+		});
+	});
+
+	it("should report the errors of MaybeError checks", async () => {
+		const available = async (
+			email: string,
+		): Promise<MaybeError<boolean, string[]>> =>
+			email.startsWith("taken")
+				? fail(["Email is taken", "Try signing in"])
+				: success(true);
+
+		const result = await Validation.of(signup)
+			.checkWith("email", (data) => available(data.email))
+			.checkWith("password", () => success())
+			.run();
+
+		expect(result).toEqual({
+			success: false,
+			error: {
+				errors: [],
+				properties: {
+					email: { errors: ["Email is taken", "Try signing in"] },
+				},
+			},
+		});
+	});
+
+	it("should produce errors compatible with z.treeifyError", () => {
+		expectTypeOf<FieldErrors<Signup>>().toEqualTypeOf<
+			ReturnType<typeof z.treeifyError<Signup>>
+		>();
+		expectTypeOf<FieldErrors<{ pair: [string, number] }>>().toEqualTypeOf<
+			ReturnType<typeof z.treeifyError<{ pair: [string, number] }>>
+		>();
+	});
+});
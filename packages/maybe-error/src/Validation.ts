@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Accumulating validation for business rules
+ *
+ * Unlike `andThen` chains, which stop at the first error, a `Validation` runs
+ * every check and collects all failures keyed by field path. The resulting
+ * error has the same shape as `z.treeifyError` output, so business rules can
+ * be reported alongside schema errors, for example as the `validation` error
+ * of `formAction`.
+ *
+ * @example
+ * ```typescript
+ * const result = await Validation.of(data)
+ *   .check("email", async (d) => !(await emailTaken(d.email)), "Email is taken")
+ *   .check("confirm", (d) => d.confirm === d.password, "Passwords do not match")
+ *   .check(["items", 0, "qty"], (d) => d.items[0].qty > 0, "Must be positive")
+ *   .run();
+ * // MaybeError<SignupData, FieldErrors<SignupData>>
+ * ```
+ */
+
+import { fail, type MaybeError, toSuccess } from "./MaybeError";
+import { MaybeErrorAsync, type MaybePromise } from "./MaybeErrorAsync";
+
+type Primitive = string | number | symbol | bigint | boolean | null | undefined;
+
+/**
+ * Errors of a value, nested by field. Mirrors the output of `z.treeifyError`:
+ * `errors` holds the messages for the node itself, `properties` those of
+ * object fields and `items` those of array elements.
+ *
+ * @template T - The validated value type
+ */
+export type FieldErrors<T> = T extends Primitive
+	? { errors: string[] }
+	: // biome-ignore lint/suspicious/noExplicitAny: Matches tuples of any element type
+		T extends [any, ...any[]]
+		? {
+				errors: string[];
+				items?: { [K in keyof T]?: FieldErrors<T[K]> };
+			}
+		: T extends unknown[]
+			? {
+					errors: string[];
+					items?: Array<FieldErrors<T[number]>>;
+				}
+			: T extends object
+				? {
+						errors: string[];
+						properties?: { [K in keyof T]?: FieldErrors<T[K]> };
+					}
+				: { errors: string[] };
+
+/**
+ * Where a check reports its errors: a top-level key, or a path of keys and
+ * array indexes. An empty path reports errors on the value itself.
+ *
+ * @template T - The validated value type
+ */
+export type FieldPath<T> = (keyof T & string) | readonly (string | number)[];
+
+/**
+ * A MaybeError with any success value and string error messages, as accepted
+ * by {@link Validation.checkWith}.
+ */
+export type CheckResult =
+	| { success: true }
+	| { success: false; error: string | string[] };
+
+type ErrorNode = {
+	errors: string[];
+	properties?: Record<string, ErrorNode>;
+	items?: ErrorNode[];
+};
+
+type Check<T> = {
+	path: readonly (string | number)[];
+	run: (value: T) => MaybePromise<string[]>;
+};
+
+const toSegments = <T>(path: FieldPath<T>): readonly (string | number)[] =>
+	typeof path === "string" ? [path] : path;
+
+const insert = (
+	root: ErrorNode,
+	path: readonly (string | number)[],
+	messages: string[],
+) => {
+	let node = root;
+	for (const segment of path) {
+		if (typeof segment === "number") {
+			node.items ??= [];
+			node.items[segment] ??= { errors: [] };
+			node = node.items[segment];
+		} else {
+			node.properties ??= {};
+			node.properties[segment] ??= { errors: [] };
+			node = node.properties[segment];
+		}
+	}
+	node.errors.push(...messages);
+};
+
+/**
+ * A builder of independent checks over a value.
+ *
+ * Checks may be async; they run concurrently when {@link Validation.run} is
+ * called, and their errors are reported in the order the checks were added.
+ *
+ * @template T - The validated value type
+ */
+export class Validation<T> {
+	private readonly value: T;
+	private readonly checks: Check<T>[] = [];
+
+	constructor(value: T) {
+		this.value = value;
+	}
+
+	/**
+	 * Starts a validation of the given value.
+	 *
+	 * @example
+	 * ```typescript
+	 * const validation = Validation.of({ name: "", age: 17 });
+	 * ```
+	 */
+	static of<T>(value: T): Validation<T> {
+		return new Validation(value);
+	}
+
+	/**
+	 * Adds a check reporting `message` at `path` when `predicate` is false.
+	 *
+	 * @param path - Where to report the error
+	 * @param predicate - Returns (or resolves to) whether the value is valid
+	 * @param message - The error message
+	 * @returns This validation, for chaining
+	 * @example
+	 * ```typescript
+	 * validation.check("age", (user) => user.age >= 18, "Must be an adult");
+	 * ```
+	 */
+	check(
+		path: FieldPath<T>,
+		predicate: (value: T) => MaybePromise<boolean>,
+		message: string,
+	): this {
+		this.checks.push({
+			path: toSegments(path),
+			run: async (value) => ((await predicate(value)) ? [] : [message]),
+		});
+		return this;
+	}
+
+	/**
+	 * Adds a check given as a MaybeError-returning function, reporting its
+	 * error message (or messages) at `path` when it fails.
+	 *
+	 * @param path - Where to report the errors
+	 * @param fn - Returns (or resolves to) a MaybeError with string errors
+	 * @returns This validation, for chaining
+	 * @example
+	 * ```typescript
+	 * validation.checkWith("username", (user) => checkUsernameAvailable(user.username));
+	 * ```
+	 */
+	checkWith(
+		path: FieldPath<T>,
+		fn: (value: T) => MaybePromise<CheckResult>,
+	): this {
+		this.checks.push({
+			path: toSegments(path),
+			run: async (value) => {
+				const result = await fn(value);
+				if (result.success) {
+					return [];
+				}
+				return ([] as string[]).concat(result.error);
+			},
+		});
+		return this;
+	}
+
+	/**
+	 * Runs every check and collects their errors.
+	 *
+	 * @returns A success with the value when every check passed, or a failure
+	 * with the errors of all failed checks
+	 */
+	run(): MaybeErrorAsync<T, FieldErrors<T>> {
+		const collect = async (): Promise<MaybeError<T, FieldErrors<T>>> => {
+			const results = await Promise.all(
+				this.checks.map((check) => check.run(this.value)),
+			);
+
+			const root: ErrorNode = { errors: [] };
+			let failed = false;
+			for (const [index, messages] of results.entries()) {
+				if (messages.length > 0) {
+					failed = true;
+					insert(root, this.checks[index].path, messages);
+				}
+			}
+
+			if (failed) {
+				return fail(root as FieldErrors<T>);
+			}
+
+			return toSuccess(this.value);
+		};
+
+		return new MaybeErrorAsync(collect());
+	}
+}
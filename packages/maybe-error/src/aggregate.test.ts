@@ -0,0 +1,150 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { all, any, collectErrors, partition } from "./aggregate";
+import { fail, type MaybeError, success } from "./MaybeError";
+
+describe("aggregate", () => {
+	const num = (value: number): MaybeError<number, "NUM"> => success(value);
+	const str = (value: string): MaybeError<string, { code: number }> =>
+		success(value);
+	const numError = (): MaybeError<number, "NUM"> => fail("NUM");
+	const strError = (code: number): MaybeError<string, { code: number }> =>
+		fail({ code });
+
+	describe("all()", () => {
+		it("should combine a tuple into a typed tuple", () => {
+			const done = success();
+			const result = all([num(1), str("a"), done]);
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, string, undefined], "NUM" | { code: number }>
+			>();
+			expect(result).toEqual({ success: true, result: [1, "a", undefined] });
+		});
+
+		it("should combine a record into a typed record", () => {
+			const result = all({ count: num(2), name: str("b") });
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<{ count: number; name: string }, "NUM" | { code: number }>
+			>();
+			expect(result).toEqual({
+				success: true,
+				result: { count: 2, name: "b" },
+			});
+		});
+
+		it("should fail with the first error", () => {
+			expect(all([num(1), strError(1), numError()])).toEqual({
+				success: false,
+				error: { code: 1 },
+			});
+			expect(all({ a: numError(), b: strError(2) })).toEqual({
+				success: false,
+				error: "NUM",
+			});
+		});
+
+		it("should succeed with an empty collection", () => {
+			expect(all([])).toEqual({ success: true, result: [] });
+			expect(all({})).toEqual({ success: true, result: {} });
+		});
+	});
+
+	describe("collectErrors()", () => {
+		it("should collect every error of an array", () => {
+			const result = collectErrors([numError(), num(1), strError(3)]);
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, number, string], ("NUM" | { code: number })[]>
+			>();
+			expect(result).toEqual({
+				success: false,
+				error: ["NUM", { code: 3 }],
+			});
+		});
+
+		it("should key errors of a record", () => {
+			const result = collectErrors({
+				count: numError(),
+				name: str("ok"),
+				title: strError(4),
+			});
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<
+					{ count: number; name: string; title: string },
+					{ count?: "NUM"; name?: { code: number }; title?: { code: number } }
+				>
+			>();
+			expect(result).toEqual({
+				success: false,
+				error: { count: "NUM", title: { code: 4 } },
+			});
+		});
+
+		it("should succeed when nothing failed", () => {
+			expect(collectErrors({ a: num(1), b: str("x") })).toEqual({
+				success: true,
+				result: { a: 1, b: "x" },
+			});
+		});
+	});
+
+	describe("any()", () => {
+		it("should return the first success", () => {
+			const result = any([numError(), str("first"), num(2)]);
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<number | string, ("NUM" | { code: number })[]>
+			>();
+			expect(result).toEqual({ success: true, result: "first" });
+		});
+
+		it("should fail with every error when nothing succeeded", () => {
+			expect(any([numError(), strError(5)])).toEqual({
+				success: false,
+				error: ["NUM", { code: 5 }],
+			});
+			expect(any({ a: numError(), b: strError(6) })).toEqual({
+				success: false,
+				error: { a: "NUM", b: { code: 6 } },
+			});
+		});
+
+		it("should fail for an empty collection", () => {
+			expect(any([])).toEqual({ success: false, error: [] });
+		});
+	});
+
+	describe("partition()", () => {
+		it("should split an array into values and errors", () => {
+			const result = partition([num(1), numError(), num(3), numError()]);
+
+			expectTypeOf(result).toEqualTypeOf<{
+				successes: number[];
+				errors: "NUM"[];
+			}>();
+			expect(result).toEqual({ successes: [1, 3], errors: ["NUM", "NUM"] });
+		});
+
+		it("should split a record into keyed values and errors", () => {
+			const result = partition({ a: num(1), b: strError(7), c: str("c") });
+
+			expect(result).toEqual({
+				successes: { a: 1, c: "c" },
+				errors: { b: { code: 7 } },
+			});
+		});
+
+		it("should work with non-tuple arrays", () => {
+			const results: MaybeError<number, "NUM">[] = [1, 2, 3].map((n) =>
+				n % 2 ? num(n) : numError(),
+			);
+
+			expect(partition(results)).toEqual({
+				successes: [1, 3],
+				errors: ["NUM"],
+			});
+		});
+	});
+});
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Helpers for combining several MaybeError values
+ *
+ * Each helper accepts either an array (or tuple) of results or a record of
+ * results keyed by name, and mirrors the shape of its input in its output.
+ *
+ * @example
+ * ```typescript
+ * const [users, teams] = await Promise.all([fetchUsers(), fetchTeams()]);
+ * const combined = all([users, teams]);
+ * // MaybeError<[User[], Team[]], UsersError | TeamsError>
+ *
+ * const keyed = all({ users, teams });
+ * // MaybeError<{ users: User[]; teams: Team[] }, UsersError | TeamsError>
+ * ```
+ */
+
+import {
+	type AnyMaybeError,
+	type ErrorValue,
+	fail,
+	type MaybeError,
+	type SuccessValue,
+	success,
+} from "./MaybeError";
+
+/**
+ * An array, tuple or record of MaybeError values.
+ */
+export type MaybeErrorCollection =
+	| readonly AnyMaybeError[]
+	| { readonly [key: string]: AnyMaybeError };
+
+type CollectionMember<Rs extends MaybeErrorCollection> =
+	Rs extends readonly AnyMaybeError[] ? Rs[number] : Rs[keyof Rs];
+
+/**
+ * The success values of a collection, in the same shape as the collection.
+ *
+ * Tuples stay tuples: `[MaybeError<A>, MaybeError<B>]` becomes `[A, B]`.
+ */
+export type CollectionSuccessValues<Rs extends MaybeErrorCollection> = {
+	-readonly [K in keyof Rs]: SuccessValue<Rs[K]>;
+};
+
+/**
+ * Every error of a collection: an array for array input, a partial record
+ * keyed like the input for record input.
+ */
+export type CollectionErrors<Rs extends MaybeErrorCollection> =
+	Rs extends readonly AnyMaybeError[]
+		? ErrorValue<Rs[number]>[]
+		: { -readonly [K in keyof Rs]?: ErrorValue<Rs[K]> };
+
+/**
+ * The result of {@link partition}.
+ */
+export type Partitioned<Rs extends MaybeErrorCollection> =
+	Rs extends readonly AnyMaybeError[]
+		? {
+				successes: SuccessValue<Rs[number]>[];
+				errors: ErrorValue<Rs[number]>[];
+			}
+		: {
+				successes: { -readonly [K in keyof Rs]?: SuccessValue<Rs[K]> };
+				errors: { -readonly [K in keyof Rs]?: ErrorValue<Rs[K]> };
+			};
+
+const entriesOf = (results: MaybeErrorCollection) =>
+	Array.isArray(results)
+		? results.map((result, index) => [index, result] as const)
+		: Object.entries(results);
+
+const emptyLike = (results: MaybeErrorCollection): Record<string, unknown> =>
+	(Array.isArray(results) ? [] : {}) as Record<string, unknown>;
+
+/**
+ * Combines a collection of results, failing with the first error.
+ *
+ * @param results - An array, tuple or record of MaybeError values
+ * @returns A success holding every value in the input's shape, or the first error
+ * @example
+ * ```typescript
+ * const result = all([success(1), success("a")]); // success([1, "a"])
+ * const failed = all({ a: success(1), b: fail("nope") }); // fail("nope")
+ * ```
+ */
+export const all = <const Rs extends MaybeErrorCollection>(
+	results: Rs,
+): MaybeError<
+	CollectionSuccessValues<Rs>,
+	ErrorValue<CollectionMember<Rs>>
+> => {
+	const values = emptyLike(results);
+
+	for (const [key, result] of entriesOf(results)) {
+		if (!result.success) {
+			return fail(result.error as ErrorValue<CollectionMember<Rs>>);
+		}
+		values[key] = result.result;
+	}
+
+	return success(values) as unknown as MaybeError<
+		CollectionSuccessValues<Rs>,
+		ErrorValue<CollectionMember<Rs>>
+	>;
+};
+
+/**
+ * Combines a collection of results, failing with every error instead of
+ * only the first one.
+ *
+ * @param results - An array, tuple or record of MaybeError values
+ * @returns A success holding every value, or all errors (an array for array
+ * input, a record keyed like the input for record input)
+ * @example
+ * ```typescript
+ * const result = collectErrors({
+ *   email: validateEmail(input.email),
+ *   name: validateName(input.name),
+ * });
+ * // fail({ email: "Invalid email", name: "Name is required" })
+ * ```
+ */
+export const collectErrors = <const Rs extends MaybeErrorCollection>(
+	results: Rs,
+): MaybeError<CollectionSuccessValues<Rs>, CollectionErrors<Rs>> => {
+	const values = emptyLike(results);
+	const errors = emptyLike(results);
+	let hasErrors = false;
+
+	for (const [key, result] of entriesOf(results)) {
+		if (result.success) {
+			values[key] = result.result;
+		} else if (Array.isArray(errors)) {
+			errors.push(result.error);
+			hasErrors = true;
+		} else {
+			errors[key] = result.error;
+			hasErrors = true;
+		}
+	}
+
+	if (hasErrors) {
+		return fail(errors as CollectionErrors<Rs>);
+	}
+
+	return success(values) as unknown as MaybeError<
+		CollectionSuccessValues<Rs>,
+		CollectionErrors<Rs>
+	>;
+};
+
+/**
+ * Returns the first successful result of a collection.
+ *
+ * @param results - An array, tuple or record of MaybeError values
+ * @returns The first success, or every error if none succeeded (an empty
+ * collection fails with an empty array or record)
+ * @example
+ * ```typescript
+ * const user = any([fromCache, fromReplica, fromPrimary]);
+ * ```
+ */
+export const any = <const Rs extends MaybeErrorCollection>(
+	results: Rs,
+): MaybeError<SuccessValue<CollectionMember<Rs>>, CollectionErrors<Rs>> => {
+	const errors = emptyLike(results);
+
+	for (const [key, result] of entriesOf(results)) {
+		if (result.success) {
+			return result as MaybeError<
+				SuccessValue<CollectionMember<Rs>>,
+				CollectionErrors<Rs>
+			>;
+		}
+
+		if (Array.isArray(errors)) {
+			errors.push(result.error);
+		} else {
+			errors[key] = result.error;
+		}
+	}
+
+	return fail(errors as CollectionErrors<Rs>);
+};
+
+/**
+ * Splits a collection of results into its success values and its errors.
+ *
+ * @param results - An array, tuple or record of MaybeError values
+ * @returns Arrays of values and errors for array input, or partial records
+ * keyed like the input for record input
+ * @example
+ * ```typescript
+ * const { successes, errors } = partition(await Promise.all(ids.map(fetchUser)));
+ * ```
+ */
+export const partition = <const Rs extends MaybeErrorCollection>(
+	results: Rs,
+): Partitioned<Rs> => {
+	const successes = emptyLike(results);
+	const errors = emptyLike(results);
+
+	for (const [key, result] of entriesOf(results)) {
+		const target = result.success ? successes : errors;
+		const value = result.success ? result.result : result.error;
+
+		if (Array.isArray(target)) {
+			target.push(value);
+		} else {
+			target[key] = value;
+		}
+	}
+
+	return { successes, errors } as Partitioned<Rs>;
+};
@@ -0,0 +1,152 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { gen, genAsync, step } from "./gen";
+import { fail, type MaybeError, success } from "./MaybeError";
+import { MaybeErrorAsync } from "./MaybeErrorAsync";
+
+describe("gen", () => {
+	function parseNumber(str: string): MaybeError<number, "NOT_A_NUMBER"> {
+		const num = Number(str);
+		if (Number.isNaN(num)) return fail("NOT_A_NUMBER");
+		return success(num);
+	}
+
+	function divide(a: number, b: number): MaybeError<number, { code: 400 }> {
+		if (b === 0) return fail({ code: 400 });
+		return success(a / b);
+	}
+
+	async function fetchUser(
+		id: string,
+	): Promise<MaybeError<{ id: string; teamId: string }, "NO_USER">> {
+		if (id === "missing") return fail("NO_USER");
+		return success({ id, teamId: `team-${id}` });
+	}
+
+	async function fetchTeam(
+		teamId: string,
+	): Promise<MaybeError<{ name: string }, "NO_TEAM">> {
+		if (teamId === "team-orphan") return fail("NO_TEAM");
+		return success({ name: teamId.toUpperCase() });
+	}
+
+	describe("gen()", () => {
+		it("should unwrap successes and wrap the returned value", () => {
+			const result = gen(function* () {
+				const a = yield* step(parseNumber("10"));
+				const b = yield* step(parseNumber("4"));
+				const quotient = yield* step(divide(a, b));
+				return quotient * 2;
+			});
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<number, "NOT_A_NUMBER" | { code: 400 }>
+			>();
+			expect(result).toEqual({ success: true, result: 5 });
+		});
+
+		it("should short-circuit on the first error", () => {
+			const reached: string[] = [];
+
+			const result = gen(function* () {
+				const a = yield* step(parseNumber("10"));
+				reached.push("a");
+				const b = yield* step(parseNumber("zero"));
+				reached.push("b");
+				return yield* step(divide(a, b));
+			});
+
+			expect(reached).toEqual(["a"]);
+			expect(result).toEqual({ success: false, error: "NOT_A_NUMBER" });
+		});
+
+		it("should run finally blocks when bailing out", () => {
+			let cleanedUp = false;
+
+			const result = gen(function* () {
+				try {
+					return yield* step(divide(1, 0));
+				} finally {
+					cleanedUp = true;
+				}
+			});
+
+			expect(cleanedUp).toBe(true);
+			expect(result).toEqual({ success: false, error: { code: 400 } });
+		});
+
+		it("should support void steps and results", () => {
+			const result = gen(function* () {
+				const value = yield* step(success());
+				expectTypeOf(value).toEqualTypeOf<undefined>();
+			});
+
+			expectTypeOf(result).toEqualTypeOf<MaybeError<void, never>>();
+			expect(result.success).toBe(true);
+		});
+	});
+
+	it("should omit the result of void successes", async () => {
+		const sync = gen(function* () {
+			yield* step(parseNumber("1"));
+		});
+		const async = await genAsync(async function* () {
+			yield* step(await fetchUser("1"));
+		});
+
+		expect(sync).toStrictEqual(success());
+		expect(async).toStrictEqual(success());
+	});
+
+	describe("genAsync()", () => {
+		it("should unwrap awaited results, promises and MaybeErrorAsync", async () => {
+			const pipeline = genAsync(async function* () {
+				const user = yield* step(await fetchUser("1"));
+				const team = yield* step(fetchTeam(user.teamId));
+				const members = yield* MaybeErrorAsync.from(
+					Promise.resolve(success(3)),
+				);
+				return `${team.name} (${members})`;
+			});
+
+			expect(pipeline).toBeInstanceOf(MaybeErrorAsync);
+
+			const result = await pipeline;
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<string, "NO_USER" | "NO_TEAM">
+			>();
+			expect(result).toEqual({ success: true, result: "TEAM-1 (3)" });
+		});
+
+		it("should short-circuit on the first error", async () => {
+			const reached: string[] = [];
+
+			const result = await genAsync(async function* () {
+				const user = yield* step(fetchUser("orphan"));
+				reached.push("user");
+				const team = yield* step(fetchTeam(user.teamId));
+				reached.push("team");
+				return team.name;
+			});
+
+			expect(reached).toEqual(["user"]);
+			expect(result).toEqual({ success: false, error: "NO_TEAM" });
+		});
+
+		it("should short-circuit on a failed MaybeErrorAsync", async () => {
+			const result = await genAsync(async function* () {
+				return yield* MaybeErrorAsync.from(fetchUser("missing"));
+			});
+
+			expect(result).toEqual({ success: false, error: "NO_USER" });
+		});
+
+		it("should compose with other pipeline methods", async () => {
+			const result = await genAsync(async function* () {
+				const user = yield* step(fetchUser("1"));
+				return user.id;
+			}).map((id) => Number(id));
+
+			expect(result).toEqual({ success: true, result: 1 });
+		});
+	});
+});
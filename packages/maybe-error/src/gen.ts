@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Generator-based do-notation for MaybeError
+ *
+ * `gen` and `genAsync` run a generator in which `yield* step(result)` unwraps
+ * a success value, or stops the whole generator at the first error. This
+ * replaces nested `if (!result.success) return result;` checks with straight
+ * line code, and the error types of every step are collected into a union.
+ *
+ * @example
+ * ```typescript
+ * const result = gen(function* () {
+ *   const a = yield* step(parseNumber(input.a));
+ *   const b = yield* step(parseNumber(input.b));
+ *   const quotient = yield* step(divide(a, b));
+ *   return quotient * 2;
+ * });
+ * // MaybeError<number, ParseError | DivisionError>
+ * ```
+ */
+
+import {
+	type AnyMaybeError,
+	type DefiniteError,
+	type ErrorValue,
+	type MaybeError,
+	type SuccessValue,
+	toSuccess,
+} from "./MaybeError";
+import { MaybeErrorAsync } from "./MaybeErrorAsync";
+
+/**
+ * A generator that yields the error of a failed step, or returns its value.
+ */
+export type StepGenerator<T, TError> = Generator<DefiniteError<TError>, T>;
+
+/**
+ * Async counterpart of {@link StepGenerator}, for steps given as promises.
+ */
+export type AsyncStepGenerator<T, TError> = AsyncGenerator<
+	DefiniteError<TError>,
+	T
+>;
+
+const resumedAfterError = () =>
+	new Error("A step generator was resumed after yielding an error");
+
+function* syncStep<R extends AnyMaybeError>(
+	result: R,
+): StepGenerator<SuccessValue<R>, ErrorValue<R>> {
+	if (!result.success) {
+		yield result as DefiniteError<ErrorValue<R>>;
+		throw resumedAfterError();
+	}
+
+	return result.result as SuccessValue<R>;
+}
+
+async function* asyncStep<R extends AnyMaybeError>(
+	promise: PromiseLike<R>,
+): AsyncStepGenerator<SuccessValue<R>, ErrorValue<R>> {
+	return yield* syncStep(await promise);
+}
+
+/**
+ * Unwraps a result inside {@link gen} or {@link genAsync} with `yield*`.
+ *
+ * Given a promise (only inside `genAsync`), it is awaited first.
+ *
+ * @param result - The result, or a promise of one
+ * @returns A generator to delegate to with `yield*`
+ * @example
+ * ```typescript
+ * const user = yield* step(await fetchUser(id));
+ * const team = yield* step(fetchTeam(user.teamId)); // genAsync only
+ * ```
+ */
+export function step<R extends AnyMaybeError>(
+	result: PromiseLike<R>,
+): AsyncStepGenerator<SuccessValue<R>, ErrorValue<R>>;
+export function step<R extends AnyMaybeError>(
+	result: R,
+): StepGenerator<SuccessValue<R>, ErrorValue<R>>;
+export function step<R extends AnyMaybeError>(
+	result: R | PromiseLike<R>,
+):
+	| StepGenerator<SuccessValue<R>, ErrorValue<R>>
+	| AsyncStepGenerator<SuccessValue<R>, ErrorValue<R>> {
+	if ("then" in result && typeof result.then === "function") {
+		return asyncStep(result);
+	}
+
+	return syncStep(result as R);
+}
+
+/**
+ * Runs a generator of steps, short-circuiting on the first error.
+ *
+ * The return value of the generator becomes the success value. The error type
+ * is the union of the error types of every `yield* step(...)`.
+ *
+ * @param body - A generator function using `yield* step(...)`
+ * @returns The first error yielded, or a success with the returned value
+ * @example
+ * ```typescript
+ * const result = gen(function* () {
+ *   const config = yield* step(parseConfig(raw));
+ *   const port = yield* step(validatePort(config.port));
+ *   return { ...config, port };
+ * });
+ * ```
+ */
+export const gen = <TYield extends DefiniteError<unknown>, T>(
+	body: () => Generator<TYield, T>,
+): MaybeError<T, ErrorValue<TYield>> => {
+	const iterator = body();
+	const next = iterator.next();
+
+	if (!next.done) {
+		// Run any finally blocks of the generator before bailing out
+		iterator.return(undefined as T);
+		return next.value as DefiniteError<ErrorValue<TYield>>;
+	}
+
+	return toSuccess(next.value);
+};
+
+/**
+ * Async variant of {@link gen}.
+ *
+ * Inside the async generator, `yield*` accepts `step(result)`,
+ * `step(promise)` and `MaybeErrorAsync` values directly.
+ *
+ * @param body - An async generator function using `yield*`
+ * @returns A MaybeErrorAsync resolving to the first error or the returned value
+ * @example
+ * ```typescript
+ * const result = await genAsync(async function* () {
+ *   const user = yield* step(fetchUser(id));
+ *   const team = yield* MaybeErrorAsync.from(fetchTeam(user.teamId));
+ *   return { user, team };
+ * });
+ * ```
+ */
+export const genAsync = <TYield extends DefiniteError<unknown>, T>(
+	body: () => AsyncGenerator<TYield, T>,
+): MaybeErrorAsync<T, ErrorValue<TYield>> => {
+	const run = async (): Promise<MaybeError<T, ErrorValue<TYield>>> => {
+		const iterator = body();
+		const next = await iterator.next();
+
+		if (!next.done) {
+			await iterator.return(undefined as T);
+			return next.value as DefiniteError<ErrorValue<TYield>>;
+		}
+
+		return toSuccess(next.value);
+	};
+
+	return new MaybeErrorAsync(run());
+};
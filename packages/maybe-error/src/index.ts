@@ -1 +1,10 @@
+export * from "./aggregate";
+export * from "./gen";
 export * from "./MaybeError";
+export * from "./MaybeErrorAsync";
+export * from "./Option";
+export * from "./policies";
+export * from "./serialize";
+export * from "./TaggedError";
+export * from "./tryCatch";
+export * from "./Validation";
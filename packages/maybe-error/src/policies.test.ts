@@ -0,0 +1,158 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import {
+	exponentialBackoff,
+	RetriesExhausted,
+	type RetriesExhaustedError,
+	TimedOut,
+	type TimedOutError,
+	withFallback,
+	withRetry,
+	withTimeout,
+} from "./policies";
+
+type ApiError = { status: number };
+
+const delayed = <T>(value: T, ms: number) =>
+	new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe("withRetry()", () => {
+	it("should return the first success", async () => {
+		const calls: number[] = [];
+		const result = await withRetry(
+			async (attempt): Promise<MaybeError<string, ApiError>> => {
+				calls.push(attempt);
+				return attempt < 3 ? fail({ status: 503 }) : success("ok");
+			},
+			{ backoff: 0 },
+		);
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<string, ApiError | RetriesExhaustedError<ApiError>>
+		>();
+		expect(result).toEqual({ success: true, result: "ok" });
+		expect(calls).toEqual([1, 2, 3]);
+	});
+
+	it("should wrap the last error once the attempts run out", async () => {
+		let calls = 0;
+		const result = await withRetry(
+			async (): Promise<MaybeError<string, ApiError>> =>
+				fail({ status: 500 + ++calls }),
+			{ attempts: 2, backoff: 0 },
+		);
+
+		expect(calls).toBe(2);
+		expect(result.success).toBe(false);
+		if (!result.success && RetriesExhausted.is(result.error)) {
+			expect(result.error).toEqual({
+				_tag: "RetriesExhausted",
+				message: "Failed after 2 attempts",
+				status: 503,
+				meta: { attempts: 2 },
+				cause: { status: 502 },
+			});
+		} else {
+			throw new Error("Expected a RetriesExhausted error");
+		}
+	});
+
+	it("should return errors rejected by retryIf unchanged", async () => {
+		let calls = 0;
+		const result = await withRetry(
+			async (): Promise<MaybeError<string, ApiError>> => {
+				calls++;
+				return fail({ status: calls === 1 ? 503 : 404 });
+			},
+			{ backoff: 0, retryIf: (error) => error.status >= 500 },
+		);
+
+		expect(calls).toBe(2);
+		expect(result).toEqual({ success: false, error: { status: 404 } });
+	});
+
+	it("should wait according to the backoff", async () => {
+		const delays: number[] = [];
+		const start = Date.now();
+		await withRetry(async () => fail("nope"), {
+			attempts: 3,
+			backoff: (attempt) => {
+				delays.push(attempt);
+				return 20;
+			},
+		});
+
+		expect(delays).toEqual([1, 2]);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+	});
+});
+
+describe("exponentialBackoff()", () => {
+	it("should double the delay up to the maximum", () => {
+		const backoff = exponentialBackoff(100, 500);
+
+		expect([1, 2, 3, 4].map(backoff)).toEqual([100, 200, 400, 500]);
+	});
+});
+
+describe("withTimeout()", () => {
+	it("should return results that settle in time", async () => {
+		const result = await withTimeout(() => delayed(success(42), 5), 100);
+
+		expectTypeOf(result).toEqualTypeOf<MaybeError<number, TimedOutError>>();
+		expect(result).toEqual({ success: true, result: 42 });
+	});
+
+	it("should fail with a TimedOut error and abort the signal", async () => {
+		let signal: AbortSignal | undefined;
+		const result = await withTimeout((s) => {
+			signal = s;
+			return delayed(success(42), 100);
+		}, 10);
+
+		expect(result).toEqual({
+			success: false,
+			error: TimedOut({ meta: { ms: 10 } }),
+		});
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it("should use a custom timeout error", async () => {
+		const result = await withTimeout(
+			(): Promise<MaybeError<number, ApiError>> => delayed(success(1), 100),
+			10,
+			"TIMEOUT" as const,
+		);
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<number, ApiError | "TIMEOUT">
+		>();
+		expect(result).toEqual({ success: false, error: "TIMEOUT" });
+	});
+});
+
+describe("withFallback()", () => {
+	it("should call the fallback with the primary error", async () => {
+		const result = await withFallback(
+			async (): Promise<MaybeError<string, ApiError>> => fail({ status: 503 }),
+			(error) => success(`fallback for ${error.status}`),
+		);
+
+		expectTypeOf(result).toEqualTypeOf<MaybeError<string, never>>();
+		expect(result).toEqual({ success: true, result: "fallback for 503" });
+	});
+
+	it("should not call the fallback on success", async () => {
+		let called = false;
+		const result = await withFallback(
+			async () => success(1),
+			() => {
+				called = true;
+				return success(2);
+			},
+		);
+
+		expect(result).toEqual({ success: true, result: 1 });
+		expect(called).toBe(false);
+	});
+});
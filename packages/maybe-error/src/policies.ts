@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Retry, timeout and fallback policies for async MaybeError calls
+ *
+ * Each policy runs a function returning a promise of a MaybeError and returns a
+ * `MaybeErrorAsync`, so policies compose by nesting. Errors produced by the
+ * policies themselves are tagged errors (`TimedOut`, `RetriesExhausted`) and
+ * can be told apart from the error type of the wrapped function.
+ *
+ * Rejections are not caught: use `fromPromise` or `tryCatch` first if the
+ * wrapped function can throw.
+ *
+ * @example
+ * ```typescript
+ * const result = await withRetry(
+ *   () => withTimeout((signal) => api.safe.get({ url: "/status", init: { signal } }), 2000),
+ *   { attempts: 3, retryIf: (error) => isTaggedError(error, "TimedOut") },
+ * );
+ * // MaybeError<Status, HttpErrorResponse | TimedOutError | RetriesExhaustedError<...>>
+ * ```
+ */
+
+import {
+	type AnyMaybeError,
+	type ErrorValue,
+	fail,
+	type SuccessValue,
+} from "./MaybeError";
+import { MaybeErrorAsync, type MaybePromise } from "./MaybeErrorAsync";
+import { defineError, type TaggedError } from "./TaggedError";
+
+/**
+ * The error returned by {@link withTimeout} when no custom error is given.
+ */
+export type TimedOutError = TaggedError<"TimedOut", { ms: number }>;
+
+/**
+ * The error returned by {@link withRetry} once every attempt failed.
+ *
+ * `cause` holds the error of the last attempt.
+ *
+ * @template TError - The error type of the retried function
+ */
+export type RetriesExhaustedError<TError> = TaggedError<
+	"RetriesExhausted",
+	{ attempts: number }
+> & { cause: TError };
+
+/**
+ * Error definition for {@link TimedOutError}.
+ */
+export const TimedOut = defineError("TimedOut", {
+	status: 504,
+	message: (meta: { ms: number }) => `Timed out after ${meta.ms}ms`,
+});
+
+/**
+ * Error definition for {@link RetriesExhaustedError}.
+ */
+export const RetriesExhausted = defineError("RetriesExhausted", {
+	status: 503,
+	message: (meta: { attempts: number }) =>
+		`Failed after ${meta.attempts} attempts`,
+});
+
+/**
+ * Options for {@link withRetry}.
+ *
+ * @template TError - The error type of the retried function
+ */
+export type RetryOptions<TError> = {
+	/** Total number of attempts, including the first one (defaults to 3) */
+	attempts?: number;
+	/**
+	 * Delay in milliseconds before the next attempt, as a constant or as a
+	 * function of the attempt that just failed (starting at 1). Defaults to
+	 * {@link exponentialBackoff}.
+	 */
+	backoff?: number | ((attempt: number) => number);
+	/** Randomizes each delay between 0 and its full value (defaults to false) */
+	jitter?: boolean;
+	/**
+	 * Decides whether an error is worth retrying. Errors it rejects are returned
+	 * as-is, without being wrapped in a `RetriesExhausted` error.
+	 */
+	retryIf?: (error: TError, attempt: number) => boolean;
+};
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => {
+		setTimeout(resolve, ms);
+	});
+
+/**
+ * Creates a backoff function doubling the delay after every attempt.
+ *
+ * @param initial - Delay after the first attempt, in milliseconds
+ * @param max - Upper bound for the delay, in milliseconds
+ * @example
+ * ```typescript
+ * withRetry(fn, { backoff: exponentialBackoff(50, 1000) }); // 50, 100, 200, ...
+ * ```
+ */
+export const exponentialBackoff =
+	(initial = 100, max = 10_000) =>
+	(attempt: number): number =>
+		Math.min(initial * 2 ** (attempt - 1), max);
+
+/**
+ * Calls a function until it succeeds, or until the attempts run out.
+ *
+ * @param fn - The function to call, receiving the attempt number (starting at 1)
+ * @param options - Attempts, delays and which errors to retry
+ * @returns The first success, the first error rejected by `retryIf`, or a
+ * `RetriesExhausted` error wrapping the last error
+ * @example
+ * ```typescript
+ * const user = await withRetry(() => userStub.safe.get({ url: "/profile" }), {
+ *   attempts: 5,
+ *   backoff: exponentialBackoff(200),
+ *   jitter: true,
+ *   retryIf: (error) => error.status >= 500,
+ * });
+ * ```
+ */
+export const withRetry = <R extends AnyMaybeError>(
+	fn: (attempt: number) => PromiseLike<R>,
+	options: RetryOptions<ErrorValue<R>> = {},
+): MaybeErrorAsync<
+	SuccessValue<R>,
+	ErrorValue<R> | RetriesExhaustedError<ErrorValue<R>>
+> => {
+	const {
+		attempts = 3,
+		backoff = exponentialBackoff(),
+		jitter = false,
+		retryIf = () => true,
+	} = options;
+
+	const run = async () => {
+		for (let attempt = 1; ; attempt++) {
+			const result = await fn(attempt);
+			if (result.success) {
+				return result;
+			}
+
+			const error = result.error as ErrorValue<R>;
+			if (!retryIf(error, attempt)) {
+				return fail(error);
+			}
+			if (attempt >= attempts) {
+				return fail(
+					RetriesExhausted({
+						meta: { attempts: attempt },
+						cause: error,
+					}) as RetriesExhaustedError<ErrorValue<R>>,
+				);
+			}
+
+			const delay = typeof backoff === "number" ? backoff : backoff(attempt);
+			await sleep(jitter ? Math.random() * delay : delay);
+		}
+	};
+
+	return MaybeErrorAsync.from(run());
+};
+
+/**
+ * Fails with a timeout error if a function does not settle in time.
+ *
+ * The function receives an `AbortSignal` that aborts when the time runs out, so
+ * the underlying work (such as a `fetch`) can be cancelled.
+ *
+ * @param fn - The function to call
+ * @param ms - Time limit in milliseconds
+ * @param timeoutError - Error to fail with (defaults to a `TimedOut` error)
+ * @returns The result of `fn`, or a failure with the timeout error
+ * @example
+ * ```typescript
+ * const result = await withTimeout(
+ *   (signal) => api.safe.get({ url: "/slow", init: { signal } }),
+ *   5000,
+ * );
+ * if (!result.success && TimedOut.is(result.error)) {
+ *   // Handle the timeout
+ * }
+ * ```
+ */
+export function withTimeout<R extends AnyMaybeError>(
+	fn: (signal: AbortSignal) => PromiseLike<R>,
+	ms: number,
+): MaybeErrorAsync<SuccessValue<R>, ErrorValue<R> | TimedOutError>;
+export function withTimeout<R extends AnyMaybeError, TTimeout>(
+	fn: (signal: AbortSignal) => PromiseLike<R>,
+	ms: number,
+	timeoutError: TTimeout,
+): MaybeErrorAsync<SuccessValue<R>, ErrorValue<R> | TTimeout>;
+export function withTimeout<R extends AnyMaybeError>(
+	fn: (signal: AbortSignal) => PromiseLike<R>,
+	ms: number,
+	timeoutError: unknown = TimedOut({ meta: { ms } }),
+): MaybeErrorAsync<SuccessValue<R>, unknown> {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const timeout = new Promise<AnyMaybeError>((resolve) => {
+		timer = setTimeout(() => {
+			controller.abort(timeoutError);
+			resolve(fail(timeoutError));
+		}, ms);
+	});
+
+	const run = async () => {
+		try {
+			return await Promise.race([fn(controller.signal), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	};
+
+	return MaybeErrorAsync.from(run()) as MaybeErrorAsync<
+		SuccessValue<R>,
+		unknown
+	>;
+}
+
+/**
+ * Calls a fallback when a function fails, like `orElse` for async calls.
+ *
+ * @param fn - The primary function
+ * @param fallbackFn - Called with the primary error; its result is returned
+ * @returns The primary success, or the result of the fallback
+ * @example
+ * ```typescript
+ * const config = await withFallback(
+ *   () => fetchRemoteConfig(),
+ *   () => success(defaultConfig),
+ * );
+ * ```
+ */
+export const withFallback = <R extends AnyMaybeError, R2 extends AnyMaybeError>(
+	fn: () => PromiseLike<R>,
+	fallbackFn: (error: ErrorValue<R>) => MaybePromise<R2>,
+): MaybeErrorAsync<SuccessValue<R> | SuccessValue<R2>, ErrorValue<R2>> => {
+	return MaybeErrorAsync.from(fn()).orElse(fallbackFn);
+};
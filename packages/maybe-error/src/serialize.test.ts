@@ -0,0 +1,219 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import {
+	fromResponse,
+	isSerializedError,
+	reviveMaybeError,
+	type SerializedError,
+	serializeMaybeError,
+	toResponse,
+} from "./serialize";
+import { defineError, type TaggedError } from "./TaggedError";
+
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe("serializeMaybeError()", () => {
+	it("should pass successes through unchanged", () => {
+		const result = success({ id: "1" });
+
+		expect(serializeMaybeError(result)).toBe(result);
+	});
+
+	it("should keep plain error values unchanged", () => {
+		expect(serializeMaybeError(fail({ code: 404 }))).toEqual({
+			success: false,
+			error: { code: 404 },
+		});
+	});
+
+	it("should serialize Error instances with their cause chain", () => {
+		const root = new TypeError("socket closed");
+		const error = new Error("Upstream failed", { cause: root });
+
+		const serialized = serializeMaybeError(fail(error), {
+			includeStack: false,
+		});
+
+		expect(serialized).toEqual({
+			success: false,
+			error: {
+				__serializedError: true,
+				name: "Error",
+				message: "Upstream failed",
+				cause: {
+					__serializedError: true,
+					name: "TypeError",
+					message: "socket closed",
+				},
+			},
+		});
+	});
+
+	it("should include stacks only when asked", () => {
+		const error = new Error("boom");
+
+		const withStack = serializeMaybeError(fail(error), { includeStack: true });
+		const withoutStack = serializeMaybeError(fail(error), {
+			includeStack: false,
+		});
+
+		expect(
+			!withStack.success && isSerializedError(withStack.error)
+				? withStack.error.stack
+				: undefined,
+		).toBe(error.stack);
+		expect(withoutStack).not.toHaveProperty("error.stack");
+	});
+
+	it("should serialize errors nested in tagged errors", () => {
+		const Upstream = defineError("Upstream", { status: 502 });
+		const serialized = serializeMaybeError(
+			fail(Upstream({ cause: new RangeError("out of range") })),
+		);
+
+		expect(serialized).toEqual({
+			success: false,
+			error: {
+				_tag: "Upstream",
+				message: "Upstream",
+				status: 502,
+				cause: {
+					__serializedError: true,
+					name: "RangeError",
+					message: "out of range",
+				},
+			},
+		});
+	});
+
+	it("should keep shared references and drop circular ones", () => {
+		const shared = { id: "1" };
+		const error = new Error("boom");
+		const circular: Record<string, unknown> = { name: "loop" };
+		circular.self = circular;
+
+		const serialized = serializeMaybeError(
+			fail({ a: shared, b: shared, c: [error, error], circular }),
+			{ includeStack: false },
+		);
+		const serializedError: SerializedError = {
+			__serializedError: true,
+			name: "Error",
+			message: "boom",
+		};
+
+		expect(serialized).toEqual({
+			success: false,
+			error: {
+				a: { id: "1" },
+				b: { id: "1" },
+				c: [serializedError, serializedError],
+				circular: { name: "loop", self: undefined },
+			},
+		});
+	});
+
+	it("should keep a tagged error's cause that is also in its meta", () => {
+		const Upstream = defineError<"Upstream", { source: Error }>("Upstream");
+		const cause = new RangeError("out of range");
+		const serialized = serializeMaybeError(
+			fail(Upstream({ cause, meta: { source: cause } })),
+			{ includeStack: false },
+		);
+		const serializedCause: SerializedError = {
+			__serializedError: true,
+			name: "RangeError",
+			message: "out of range",
+		};
+
+		expect(serialized).toMatchObject({
+			error: { cause: serializedCause, meta: { source: serializedCause } },
+		});
+	});
+
+	it("should keep custom error names and properties", () => {
+		class DatabaseError extends Error {
+			code = "ECONNRESET";
+			override name = "DatabaseError";
+		}
+
+		const revived = reviveMaybeError(
+			roundTrip(serializeMaybeError(fail(new DatabaseError("lost")))),
+		);
+
+		expect(revived.success).toBe(false);
+		if (!revived.success) {
+			expect(revived.error).toBeInstanceOf(Error);
+			expect(revived.error.name).toBe("DatabaseError");
+			expect(revived.error.message).toBe("lost");
+			expect(revived.error.code).toBe("ECONNRESET");
+		}
+	});
+});
+
+describe("reviveMaybeError()", () => {
+	it("should round-trip Error instances through JSON", () => {
+		const original: MaybeError<number, Error> = fail(
+			new Error("outer", { cause: new SyntaxError("inner") }),
+		);
+
+		const revived = reviveMaybeError<number, Error>(
+			roundTrip(serializeMaybeError(original)),
+		);
+
+		expectTypeOf(revived).toEqualTypeOf<MaybeError<number, Error>>();
+		expect(revived.success).toBe(false);
+		if (!revived.success) {
+			expect(revived.error).toBeInstanceOf(Error);
+			expect(revived.error.message).toBe("outer");
+			expect(revived.error.cause).toBeInstanceOf(SyntaxError);
+			expect((revived.error.cause as Error).message).toBe("inner");
+		}
+	});
+
+	it("should pass successes through unchanged", () => {
+		expect(reviveMaybeError(roundTrip(success([1, 2])))).toEqual({
+			success: true,
+			result: [1, 2],
+		});
+	});
+});
+
+describe("toResponse() / fromResponse()", () => {
+	it("should send successes with status 200", async () => {
+		const response = toResponse(success({ id: "1" }));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Type")).toBe("application/json");
+		expect(await fromResponse<{ id: string }>(response)).toEqual({
+			success: true,
+			result: { id: "1" },
+		});
+	});
+
+	it("should use the status of tagged errors", async () => {
+		const NotFound = defineError("NotFound", { status: 404 });
+		const response = toResponse(fail(NotFound()));
+
+		expect(response.status).toBe(404);
+		expect(
+			await fromResponse<undefined, TaggedError<"NotFound">>(response),
+		).toEqual({
+			success: false,
+			error: { _tag: "NotFound", message: "NotFound", status: 404 },
+		});
+	});
+
+	it("should default errors to status 500 and allow overrides", () => {
+		expect(toResponse(fail("nope")).status).toBe(500);
+		expect(toResponse(fail("nope"), { status: 400 }).status).toBe(400);
+	});
+
+	it("should revive Error instances", async () => {
+		const result = await fromResponse<undefined, Error>(
+			toResponse(fail(new Error("boom"))),
+		);
+
+		expect(!result.success && result.error).toBeInstanceOf(Error);
+	});
+});
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Serialization of MaybeError values across process boundaries
+ *
+ * `Error` instances do not survive `JSON.stringify`, structured cloning in
+ * every runtime, or msgpack encoding: their `message`, `name` and `cause` are
+ * non-enumerable or dropped. `serializeMaybeError` replaces every `Error` in
+ * the error value (including nested causes and errors inside tagged error
+ * objects) with a plain marker object, and `reviveMaybeError` turns those
+ * markers back into `Error` instances on the receiving side.
+ *
+ * @example
+ * ```typescript
+ * // Server
+ * return c.json(serializeMaybeError(result));
+ *
+ * // Client
+ * const result = reviveMaybeError<User, ApiError>(await res.json());
+ * ```
+ */
+
+import type { DefiniteError, DefiniteSuccess, MaybeError } from "./MaybeError";
+
+/**
+ * Plain-object representation of an `Error` instance.
+ */
+export type SerializedError = {
+	__serializedError: true;
+	name: string;
+	message: string;
+	/** Only present when stacks are included, see {@link SerializeOptions} */
+	stack?: string;
+	cause?: unknown;
+	/** Own enumerable properties of the error, such as `code` */
+	properties?: Record<string, unknown>;
+};
+
+/**
+ * Recursively replaces `Error` instances in a type with {@link SerializedError}.
+ */
+export type Serialized<T> = T extends Error
+	? SerializedError
+	: T extends readonly unknown[]
+		? { [K in keyof T]: Serialized<T[K]> }
+		: T extends object
+			? { [K in keyof T]: Serialized<T[K]> }
+			: T;
+
+/**
+ * The wire representation of a `MaybeError<T, TError>`.
+ */
+export type SerializedMaybeError<T = undefined, TError = string> =
+	| DefiniteSuccess<T>
+	| DefiniteError<Serialized<TError>>;
+
+/**
+ * Options for {@link serializeMaybeError}.
+ */
+export type SerializeOptions = {
+	/**
+	 * Whether to include stack traces of serialized errors.
+	 *
+	 * Defaults to true only when `NODE_ENV` is `"development"`, so stacks are
+	 * not leaked to clients in production.
+	 */
+	includeStack?: boolean;
+};
+
+const errorConstructors: Record<string, ErrorConstructor> = {
+	Error,
+	EvalError,
+	RangeError,
+	ReferenceError,
+	SyntaxError,
+	TypeError,
+	URIError,
+};
+
+const isDevelopment = () =>
+	(globalThis as { process?: { env?: Record<string, string | undefined> } })
+		.process?.env?.NODE_ENV === "development";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Checks whether a value is a {@link SerializedError} marker.
+ */
+export const isSerializedError = (value: unknown): value is SerializedError =>
+	isPlainObject(value) &&
+	value.__serializedError === true &&
+	typeof value.message === "string";
+
+/**
+ * Recursively converts `Error` instances inside a value into
+ * {@link SerializedError} markers. Arrays and plain objects are walked; other
+ * values are returned unchanged. Circular references are dropped.
+ *
+ * @param value - The value to serialize
+ * @param options - Serialization options
+ */
+export const serializeErrorValue = <T>(
+	value: T,
+	options: SerializeOptions = {},
+): Serialized<T> => {
+	const includeStack = options.includeStack ?? isDevelopment();
+	// Only the objects on the current path, so shared references are kept and
+	// only cycles are dropped
+	const ancestors = new WeakSet<object>();
+
+	const walk = (current: unknown): unknown => {
+		if (typeof current !== "object" || current === null) {
+			return current;
+		}
+		if (ancestors.has(current)) {
+			return undefined;
+		}
+
+		ancestors.add(current);
+		try {
+			return walkObject(current);
+		} finally {
+			ancestors.delete(current);
+		}
+	};
+
+	const walkObject = (current: object): unknown => {
+		if (current instanceof Error) {
+			const serialized: SerializedError = {
+				__serializedError: true,
+				name: current.name,
+				message: current.message,
+			};
+
+			if (includeStack && current.stack) {
+				serialized.stack = current.stack;
+			}
+
+			const { cause } = current as { cause?: unknown };
+			if (cause !== undefined) {
+				serialized.cause = walk(cause);
+			}
+
+			const properties = Object.entries(current).filter(
+				([key]) => key !== "cause",
+			);
+			if (properties.length > 0) {
+				serialized.properties = Object.fromEntries(
+					properties.map(([key, entry]) => [key, walk(entry)]),
+				);
+			}
+
+			return serialized;
+		}
+
+		if (Array.isArray(current)) {
+			return current.map(walk);
+		}
+
+		if (isPlainObject(current)) {
+			return Object.fromEntries(
+				Object.entries(current).map(([key, entry]) => [key, walk(entry)]),
+			);
+		}
+
+		return current;
+	};
+
+	return walk(value) as Serialized<T>;
+};
+
+/**
+ * Recursively converts {@link SerializedError} markers back into `Error`
+ * instances. Built-in error names such as `TypeError` revive to their own
+ * constructor; other names revive to `Error` with the `name` preserved.
+ *
+ * @param value - The value to revive
+ */
+export const reviveErrorValue = <T>(value: Serialized<T>): T => {
+	const walk = (current: unknown): unknown => {
+		if (isSerializedError(current)) {
+			const ErrorConstructor = errorConstructors[current.name] ?? Error;
+			const error = new ErrorConstructor(current.message);
+
+			error.name = current.name;
+			if (current.stack !== undefined) {
+				error.stack = current.stack;
+			}
+			if (current.cause !== undefined) {
+				(error as { cause?: unknown }).cause = walk(current.cause);
+			}
+			if (current.properties) {
+				for (const [key, entry] of Object.entries(current.properties)) {
+					(error as unknown as Record<string, unknown>)[key] = walk(entry);
+				}
+			}
+
+			return error;
+		}
+
+		if (Array.isArray(current)) {
+			return current.map(walk);
+		}
+
+		if (isPlainObject(current)) {
+			return Object.fromEntries(
+				Object.entries(current).map(([key, entry]) => [key, walk(entry)]),
+			);
+		}
+
+		return current;
+	};
+
+	return walk(value) as T;
+};
+
+/**
+ * Prepares a MaybeError for JSON, msgpack or any other plain-data transport.
+ *
+ * Success values are passed through unchanged. The error value is walked and
+ * every `Error` instance, including nested `cause` chains, is replaced with a
+ * {@link SerializedError} marker.
+ *
+ * @param result - The result to serialize
+ * @param options - Serialization options
+ * @returns A plain-data MaybeError
+ * @example
+ * ```typescript
+ * const payload = serializeMaybeError(
+ *   fail(new Error("Upstream failed", { cause: networkError })),
+ * );
+ * JSON.stringify(payload); // keeps message, name and cause
+ * ```
+ */
+export const serializeMaybeError = <T, TError>(
+	result: MaybeError<T, TError>,
+	options?: SerializeOptions,
+): SerializedMaybeError<T, TError> => {
+	if (result.success) {
+		return result;
+	}
+
+	return {
+		success: false,
+		error: serializeErrorValue(result.error, options),
+	};
+};
+
+/**
+ * Restores a MaybeError produced by {@link serializeMaybeError}, turning
+ * serialized errors back into `Error` instances.
+ *
+ * The payload is not validated; use `maybeErrorSchema` from
+ * `@firtoz/maybe-error/zod` for untrusted input.
+ *
+ * @param payload - The deserialized payload
+ * @returns The revived MaybeError
+ * @example
+ * ```typescript
+ * const result = reviveMaybeError<User, Error>(await response.json());
+ * if (!result.success) {
+ *   console.error(result.error.cause);
+ * }
+ * ```
+ */
+export const reviveMaybeError = <T = undefined, TError = string>(
+	payload: SerializedMaybeError<T, TError>,
+): MaybeError<T, TError> => {
+	if (payload.success) {
+		return payload;
+	}
+
+	return {
+		success: false,
+		error: reviveErrorValue<TError>(payload.error),
+	};
+};
+
+/**
+ * Creates a JSON `Response` from a MaybeError, serializing its error.
+ *
+ * Successes use status 200. Errors use the `status` of the error value when it
+ * has one (as tagged errors from `defineError` do), falling back to 500.
+ *
+ * @param result - The result to send
+ * @param init - Extra response options; an explicit `status` always wins
+ * @param options - Serialization options
+ * @example
+ * ```typescript
+ * app.get("/users/:id", async (c) => toResponse(await getUser(c.req.param("id"))));
+ * ```
+ */
+export const toResponse = <T, TError>(
+	result: MaybeError<T, TError>,
+	init: ResponseInit = {},
+	options?: SerializeOptions,
+): Response => {
+	const errorStatus = (result as { error?: { status?: unknown } }).error
+		?.status;
+	const status = result.success
+		? 200
+		: typeof errorStatus === "number"
+			? errorStatus
+			: 500;
+
+	const headers = new Headers(
+		init.headers as unknown as ConstructorParameters<typeof Headers>[0],
+	);
+	if (!headers.has("Content-Type")) {
+		headers.set("Content-Type", "application/json");
+	}
+
+	return new Response(JSON.stringify(serializeMaybeError(result, options)), {
+		status,
+		...init,
+		headers,
+	});
+};
+
+/**
+ * Reads a MaybeError from a `Response` created by {@link toResponse}.
+ *
+ * @param response - The response to read
+ * @returns The revived MaybeError
+ */
+export const fromResponse = async <T = undefined, TError = string>(
+	response: Response,
+): Promise<MaybeError<T, TError>> => {
+	return reviveMaybeError(
+		(await response.json()) as SerializedMaybeError<T, TError>,
+	);
+};
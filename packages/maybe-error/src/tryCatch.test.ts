@@ -0,0 +1,130 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { type MaybeError, map, success } from "./MaybeError";
+import { MaybeErrorAsync } from "./MaybeErrorAsync";
+import { fromPromise, fromThrowable, tryCatch } from "./tryCatch";
+
+describe("tryCatch()", () => {
+	it("should wrap a returned value in a success", () => {
+		const result = tryCatch(() => JSON.parse('{"a":1}') as { a: number });
+
+		expectTypeOf(result).toEqualTypeOf<MaybeError<{ a: number }, unknown>>();
+		expect(result).toEqual({ success: true, result: { a: 1 } });
+	});
+
+	it("should omit the result of void successes like map()", async () => {
+		expect(tryCatch(() => undefined)).toStrictEqual(
+			map(success(1), () => undefined),
+		);
+		expect(tryCatch(() => undefined)).toStrictEqual({ success: true });
+		expect(await fromPromise(Promise.resolve(undefined))).toStrictEqual({
+			success: true,
+		});
+	});
+
+	it("should capture thrown values as errors", () => {
+		const thrown = new Error("boom");
+		const result = tryCatch((): number => {
+			throw thrown;
+		});
+
+		expect(result).toEqual({ success: false, error: thrown });
+	});
+
+	it("should map thrown values with mapError", () => {
+		const result = tryCatch(
+			(): number => JSON.parse("{ invalid"),
+			(error) => ({ code: 400, message: (error as Error).name }),
+		);
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<number, { code: number; message: string }>
+		>();
+		expect(result).toEqual({
+			success: false,
+			error: { code: 400, message: "SyntaxError" },
+		});
+	});
+
+	it("should return a promise for async functions", async () => {
+		const ok = tryCatch(async () => "done");
+		const bad = tryCatch(
+			async (): Promise<string> => {
+				throw new Error("rejected");
+			},
+			(error) => (error as Error).message,
+		);
+
+		expectTypeOf(ok).toEqualTypeOf<Promise<MaybeError<string, unknown>>>();
+		expect(await ok).toEqual({ success: true, result: "done" });
+		expect(await bad).toEqual({ success: false, error: "rejected" });
+	});
+});
+
+describe("fromPromise()", () => {
+	it("should resolve to a success", async () => {
+		const pipeline = fromPromise(Promise.resolve(21));
+
+		expect(pipeline).toBeInstanceOf(MaybeErrorAsync);
+		expect(await pipeline.map((n) => n * 2)).toEqual({
+			success: true,
+			result: 42,
+		});
+	});
+
+	it("should convert rejections into errors", async () => {
+		const result = await fromPromise(
+			Promise.reject(new Error("network down")),
+			(error) => `Network error: ${(error as Error).message}`,
+		);
+
+		expectTypeOf(result).toEqualTypeOf<MaybeError<never, string>>();
+		expect(result).toEqual({
+			success: false,
+			error: "Network error: network down",
+		});
+	});
+});
+
+describe("fromThrowable()", () => {
+	const parseAge = (input: string): number => {
+		const age = Number.parseInt(input, 10);
+		if (Number.isNaN(age)) {
+			throw new RangeError(`Invalid age: ${input}`);
+		}
+		return age;
+	};
+
+	it("should forward arguments and wrap the return value", () => {
+		const safeParseAge = fromThrowable(parseAge);
+
+		expectTypeOf(safeParseAge).toEqualTypeOf<
+			(input: string) => MaybeError<number, unknown>
+		>();
+		expect(safeParseAge("42")).toEqual({ success: true, result: 42 });
+	});
+
+	it("should capture thrown values with mapError", () => {
+		const safeParseAge = fromThrowable(
+			parseAge,
+			(error) => (error as RangeError).message,
+		);
+
+		expect(safeParseAge("abc")).toEqual({
+			success: false,
+			error: "Invalid age: abc",
+		});
+	});
+
+	it("should return a promise for async functions", async () => {
+		const load = fromThrowable(async (id: string) => {
+			if (id === "missing") throw new Error("not found");
+			return { id };
+		});
+
+		expectTypeOf(load).returns.toEqualTypeOf<
+			Promise<MaybeError<{ id: string }, unknown>>
+		>();
+		expect(await load("1")).toEqual({ success: true, result: { id: "1" } });
+		expect(await load("missing")).toMatchObject({ success: false });
+	});
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Adapters from exception-based code to MaybeError
+ *
+ * These helpers turn thrown exceptions and rejected promises into
+ * `DefiniteError` values, so third-party code can be used without writing
+ * try/catch blocks around every call. Each accepts an optional `mapError`
+ * callback; without it the error type is `unknown`, since anything can be thrown.
+ *
+ * @example
+ * ```typescript
+ * const parsed = tryCatch(
+ *   () => JSON.parse(body) as Payload,
+ *   (error) => `Invalid JSON: ${String(error)}`,
+ * );
+ * // MaybeError<Payload, string>
+ * ```
+ */
+
+import { fail, type MaybeError, toSuccess } from "./MaybeError";
+import { MaybeErrorAsync } from "./MaybeErrorAsync";
+
+/**
+ * Converts a caught value into the error type of the result.
+ */
+export type ErrorMapper<TError> = (error: unknown) => TError;
+
+/**
+ * The return type of a function wrapped by {@link fromThrowable}.
+ *
+ * Functions returning a promise produce a promise of a MaybeError.
+ */
+export type ThrowableResult<T, TError> = T extends PromiseLike<infer U>
+	? Promise<MaybeError<U, TError>>
+	: MaybeError<T, TError>;
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as { then?: unknown }).then === "function";
+
+const toError =
+	<TError>(mapError: ErrorMapper<TError> | undefined) =>
+	(error: unknown) =>
+		fail(mapError ? mapError(error) : (error as TError));
+
+/**
+ * Runs a function and captures anything it throws as a `DefiniteError`.
+ *
+ * If the function returns a promise, a promise of a MaybeError is returned and
+ * rejections are captured as well.
+ *
+ * @template T - The return type of `fn`
+ * @template TError - The mapped error type (`unknown` without `mapError`)
+ * @param fn - The function to run
+ * @param mapError - Optional mapper from the thrown value to `TError`
+ * @returns A MaybeError, or a promise of one for async functions
+ * @example
+ * ```typescript
+ * const config = tryCatch(() => readConfigSync(path));
+ * // MaybeError<Config, unknown>
+ *
+ * const user = await tryCatch(
+ *   () => db.users.findOrThrow(id),
+ *   (error) => ({ code: 404, message: String(error) }),
+ * );
+ * // MaybeError<User, { code: number; message: string }>
+ * ```
+ */
+export function tryCatch<T, TError = unknown>(
+	fn: () => PromiseLike<T>,
+	mapError?: ErrorMapper<TError>,
+): Promise<MaybeError<T, TError>>;
+export function tryCatch<T, TError = unknown>(
+	fn: () => T,
+	mapError?: ErrorMapper<TError>,
+): MaybeError<T, TError>;
+export function tryCatch<T, TError = unknown>(
+	fn: () => T | PromiseLike<T>,
+	mapError?: ErrorMapper<TError>,
+): MaybeError<T, TError> | Promise<MaybeError<T, TError>> {
+	const onError = toError(mapError);
+
+	try {
+		const value = fn();
+
+		if (isPromiseLike(value)) {
+			return Promise.resolve(value).then(
+				(resolved) => toSuccess(resolved as T),
+				onError,
+			);
+		}
+
+		return toSuccess(value);
+	} catch (error) {
+		return onError(error);
+	}
+}
+
+/**
+ * Converts a promise into a {@link MaybeErrorAsync}, turning rejections into
+ * `DefiniteError` values.
+ *
+ * @template T - The resolved type of the promise
+ * @template TError - The mapped error type (`unknown` without `mapError`)
+ * @param promise - The promise to convert
+ * @param mapError - Optional mapper from the rejection reason to `TError`
+ * @returns An awaitable, chainable MaybeError pipeline
+ * @example
+ * ```typescript
+ * const result = await fromPromise(
+ *   fetch(url).then((res) => res.json() as Promise<User>),
+ *   (error) => `Network error: ${String(error)}`,
+ * ).map((user) => user.name);
+ * ```
+ */
+export const fromPromise = <T, TError = unknown>(
+	promise: PromiseLike<T>,
+	mapError?: ErrorMapper<TError>,
+): MaybeErrorAsync<T, TError> => {
+	return new MaybeErrorAsync<T, TError>(
+		Promise.resolve(promise).then(toSuccess, toError(mapError)),
+	);
+};
+
+/**
+ * Wraps a throwing function so that it returns a MaybeError instead.
+ *
+ * Arguments are forwarded unchanged. Async functions return a promise of a
+ * MaybeError.
+ *
+ * @template TArgs - The argument types of `fn`
+ * @template T - The return type of `fn`
+ * @template TError - The mapped error type (`unknown` without `mapError`)
+ * @param fn - The function to wrap
+ * @param mapError - Optional mapper from the thrown value to `TError`
+ * @returns A function with the same parameters that never throws
+ * @example
+ * ```typescript
+ * const safeParse = fromThrowable(JSON.parse, () => "Invalid JSON");
+ * const result = safeParse('{"a":1}'); // MaybeError<any, string>
+ * ```
+ */
+export const fromThrowable = <TArgs extends unknown[], T, TError = unknown>(
+	fn: (...args: TArgs) => T,
+	mapError?: ErrorMapper<TError>,
+): ((...args: TArgs) => ThrowableResult<T, TError>) => {
+	return (...args) =>
+		tryCatch(() => fn(...args), mapError) as ThrowableResult<T, TError>;
+};
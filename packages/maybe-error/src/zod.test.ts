@@ -0,0 +1,107 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { z } from "zod";
+import { fail, type MaybeError, success } from "./MaybeError";
+import { serializeMaybeError } from "./serialize";
+import { maybeErrorSchema, zodMaybeError } from "./zod";
+
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe("maybeErrorSchema()", () => {
+	const schema = maybeErrorSchema(
+		z.object({ id: z.string() }),
+		z.instanceof(Error),
+	);
+
+	it("should validate successes", () => {
+		const parsed = schema.parse({ success: true, result: { id: "1" } });
+
+		expectTypeOf(parsed).toEqualTypeOf<
+			| { success: true; result: { id: string } }
+			| { success: false; error: Error }
+		>();
+		expect(parsed).toEqual({ success: true, result: { id: "1" } });
+	});
+
+	it("should revive and validate serialized errors", () => {
+		const payload = roundTrip(serializeMaybeError(fail(new Error("boom"))));
+		const parsed = schema.parse(payload);
+
+		expect(parsed.success).toBe(false);
+		if (!parsed.success) {
+			expect(parsed.error).toBeInstanceOf(Error);
+			expect(parsed.error.message).toBe("boom");
+		}
+	});
+
+	it("should reject invalid payloads", () => {
+		expect(schema.safeParse({ success: true, result: { id: 1 } }).success).toBe(
+			false,
+		);
+		expect(schema.safeParse({ success: false, error: "text" }).success).toBe(
+			false,
+		);
+		expect(schema.safeParse(null).success).toBe(false);
+	});
+});
+
+describe("zodMaybeError()", () => {
+	const userResult = zodMaybeError(
+		z.object({ id: z.string() }),
+		z.object({ code: z.number(), message: z.string() }),
+	);
+
+	it("should infer a type assignable to MaybeError", () => {
+		type Parsed = z.infer<typeof userResult>;
+
+		expectTypeOf<Parsed>().toExtend<
+			MaybeError<{ id: string }, { code: number; message: string }>
+		>();
+		expectTypeOf<
+			MaybeError<{ id: string }, { code: number; message: string }>
+		>().toExtend<Parsed>();
+	});
+
+	it("should validate both branches", () => {
+		expect(userResult.parse(success({ id: "1" }))).toEqual({
+			success: true,
+			result: { id: "1" },
+		});
+		expect(
+			userResult.parse(fail({ code: 404, message: "User not found" })),
+		).toEqual({
+			success: false,
+			error: { code: 404, message: "User not found" },
+		});
+	});
+
+	it("should reject mismatched payloads", () => {
+		expect(userResult.safeParse({ success: true }).success).toBe(false);
+		expect(
+			userResult.safeParse({ success: false, error: "text" }).success,
+		).toBe(false);
+		expect(
+			userResult.safeParse({ success: "yes", result: { id: "1" } }).success,
+		).toBe(false);
+	});
+
+	it("should make result optional when the success type is undefined", () => {
+		const voidResult = zodMaybeError(z.undefined());
+
+		expectTypeOf<z.infer<typeof voidResult>>().toExtend<MaybeError>();
+		expectTypeOf<MaybeError>().toExtend<z.infer<typeof voidResult>>();
+		expect(voidResult.parse(success())).toEqual({ success: true });
+		expect(voidResult.safeParse({ success: true, result: 1 }).success).toBe(
+			false,
+		);
+	});
+
+	it("should default the error schema to strings", () => {
+		const numberResult = zodMaybeError(z.number());
+
+		expect(numberResult.parse(fail("Division by zero"))).toEqual({
+			success: false,
+			error: "Division by zero",
+		});
+		expect(numberResult.safeParse(fail({ code: 1 })).success).toBe(false);
+	});
+});
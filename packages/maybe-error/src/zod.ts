@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Zod schemas for MaybeError payloads
+ *
+ * Available as the `@firtoz/maybe-error/zod` subpath so that zod stays an
+ * optional peer dependency of the main entry point.
+ *
+ * @example
+ * ```typescript
+ * import { maybeErrorSchema, zodMaybeError } from "@firtoz/maybe-error/zod";
+ *
+ * // Validate a MaybeError as-is, e.g. the return value of a Hono route
+ * const userResult = zodMaybeError(userSchema, apiErrorSchema);
+ * const parsed = userResult.parse(await response.json());
+ * // MaybeError<User, ApiError>
+ *
+ * // Validate a payload produced by serializeMaybeError
+ * const schema = maybeErrorSchema(userSchema, z.instanceof(Error));
+ * const result = schema.parse(await response.json());
+ * // MaybeError<User, Error>, with serialized errors revived
+ * ```
+ */
+
+import { z } from "zod";
+import { reviveMaybeError, type SerializedMaybeError } from "./serialize";
+
+/**
+ * The `result` field schema: optional when the success type accepts
+ * `undefined`, mirroring `DefiniteSuccess`.
+ */
+type ResultField<TResult extends z.ZodType> =
+	undefined extends z.output<TResult> ? z.ZodOptional<TResult> : TResult;
+
+/**
+ * The schema type returned by {@link zodMaybeError}.
+ *
+ * @template TResult - Schema of the success value
+ * @template TError - Schema of the error value
+ */
+export type ZodMaybeError<
+	TResult extends z.ZodType,
+	TError extends z.ZodType,
+> = z.ZodDiscriminatedUnion<
+	[
+		z.ZodObject<{ success: z.ZodLiteral<true>; result: ResultField<TResult> }>,
+		z.ZodObject<{ success: z.ZodLiteral<false>; error: TError }>,
+	]
+>;
+
+/**
+ * Creates a discriminated-union schema matching `MaybeError`.
+ *
+ * The success branch mirrors `DefiniteSuccess`: when the result schema accepts
+ * `undefined` (for example `z.undefined()`), the `result` key is optional, so
+ * `success()` payloads validate. The error schema defaults to `z.string()`,
+ * like the default `TError` of `MaybeError`.
+ *
+ * @param resultSchema - Schema for the success value
+ * @param errorSchema - Schema for the error value (defaults to `z.string()`)
+ * @returns A schema whose output is assignable to `MaybeError<Result, Error>`
+ * @example
+ * ```typescript
+ * const schema = zodMaybeError(
+ *   z.object({ id: z.string() }),
+ *   z.object({ code: z.number(), message: z.string() }),
+ * );
+ *
+ * const result = schema.safeParse(await response.json());
+ * if (result.success && result.data.success) {
+ *   console.log(result.data.result.id);
+ * }
+ * ```
+ */
+export function zodMaybeError<TResult extends z.ZodType>(
+	resultSchema: TResult,
+): ZodMaybeError<TResult, z.ZodString>;
+export function zodMaybeError<
+	TResult extends z.ZodType,
+	TError extends z.ZodType,
+>(resultSchema: TResult, errorSchema: TError): ZodMaybeError<TResult, TError>;
+export function zodMaybeError(
+	resultSchema: z.ZodType,
+	errorSchema: z.ZodType = z.string(),
+): ZodMaybeError<z.ZodType, z.ZodType> {
+	const acceptsUndefined = resultSchema.safeParse(undefined).success;
+
+	return z.discriminatedUnion("success", [
+		z.object({
+			success: z.literal(true),
+			result: acceptsUndefined ? resultSchema.optional() : resultSchema,
+		}),
+		z.object({ success: z.literal(false), error: errorSchema }),
+	]) as ZodMaybeError<z.ZodType, z.ZodType>;
+}
+
+/**
+ * Creates a schema for a MaybeError sent through `serializeMaybeError`.
+ *
+ * Serialized errors are revived into `Error` instances before validation, so
+ * `errorSchema` describes the error as the receiver will use it, for example
+ * `z.instanceof(Error)` or a tagged error object schema.
+ *
+ * @param resultSchema - Schema for the success value
+ * @param errorSchema - Schema for the revived error value
+ * @returns A schema parsing the wire payload into a MaybeError
+ * @example
+ * ```typescript
+ * const schema = maybeErrorSchema(
+ *   z.object({ id: z.string() }),
+ *   z.object({ _tag: z.literal("NotFound"), message: z.string() }),
+ * );
+ * const parsed = schema.safeParse(payload);
+ * ```
+ */
+export const maybeErrorSchema = <
+	TResult extends z.ZodType,
+	TError extends z.ZodType,
+>(
+	resultSchema: TResult,
+	errorSchema: TError,
+) => {
+	return z.preprocess(
+		(value) => {
+			if (
+				typeof value === "object" &&
+				value !== null &&
+				(value as { success?: unknown }).success === false
+			) {
+				return reviveMaybeError(
+					value as SerializedMaybeError<unknown, unknown>,
+				);
+			}
+			return value;
+		},
+		zodMaybeError(resultSchema, errorSchema),
+	);
+};